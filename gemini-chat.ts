@@ -1,30 +1,12 @@
 // cursor adapted code
-import { GoogleGenAI, HarmBlockThreshold, HarmCategory } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: Bun.env.GEMINI_API_KEY });
-
-type ReplyKind = "transacional" | "insight" | "educacao";
-
-function chooseTarget(q: string): { kind: ReplyKind; max: number; min: number } {
-  const lower = q.toLowerCase();
-  if (lower.includes("quanto") || lower.includes("gastei") || lower.includes("pagarei")) {
-    return { kind: "transacional", min: 0, max: 140 };
-  }
-  if (lower.includes("como está") || lower.includes("saúde financeira") || lower.includes("resumo")) {
-    return { kind: "insight", min: 250, max: 500 };
-  }
-  return { kind: "educacao", min: 200, max: 500 }; // padrão da sua faixa desejada
-}
-
-function trimToRange(text: string, min: number, max: number) {
-  const clean = text.trim();
-  if (clean.length > max) return clean.slice(0, max).trimEnd();
-  if (clean.length < min) return clean; // confia no modelo para completar no próximo turno
-  return clean;
-}
+import { HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { createGeminiChatModel, type ChatMessage } from "./rag/chat-model.ts";
+import { fitToBudget } from "./rag/length-control.ts";
+import { classifyReplyKind, getResponseProfile } from "./rag/response-profiles.ts";
 
 async function chat(userMessage: string) {
-  const { min, max, kind } = chooseTarget(userMessage);
+  // Mesmo registro de perfis do pipeline RAG: tipos registrados valem aqui também
+  const { min, max } = getResponseProfile(classifyReplyKind(userMessage)).length;
 
   const safetySettings = [
     {
@@ -45,47 +27,31 @@ async function chat(userMessage: string) {
     },
   ];
   
-  const systemInstruction = 
-    {
-      parts: [
-        { text: "Você é um assistente de finanças pessoais conciso e amigável." },
-        { text: "Regra 1: Responda em no máximo 400 caracteres (aprox. 3 frases)." },
-        { text: "Regra 2: Use emojis para tornar o tom leve." },
-        { text: "Regra 3: Se o assunto for complexo, dê o resumo e pergunte se o usuário quer detalhes." },
-        { text: "Regra 4: Você é um educador, não recomende investimentos específicos (como 'compre Bitcoin agora')." },
-        { text: "Regra 5: Se a pergunta não for sobre finanças, responda com 'Desculpe, não posso ajudar com isso e continue a conversa normalmente." },
-        { text: "Regra 6: Pode ultrapassar o limite de caracteres, caso a frase esteja incompleta." },
-      ]
-    };
-
-  const resp = await ai.models.generateContent({
-    model: "gemini-2.5-flash-lite",
-    contents: [
+  const systemInstruction = [
+    "Você é um assistente de finanças pessoais conciso e amigável.",
+    "Regra 1: Responda em no máximo 400 caracteres (aprox. 3 frases).",
+    "Regra 2: Use emojis para tornar o tom leve.",
+    "Regra 3: Se o assunto for complexo, dê o resumo e pergunte se o usuário quer detalhes.",
+    "Regra 4: Você é um educador, não recomende investimentos específicos (como 'compre Bitcoin agora').",
+    "Regra 5: Se a pergunta não for sobre finanças, responda com 'Desculpe, não posso ajudar com isso e continue a conversa normalmente.",
+    "Regra 6: Pode ultrapassar o limite de caracteres, caso a frase esteja incompleta.",
+  ].join("\n");
+
+  const model = createGeminiChatModel("gemini-2.5-flash-lite", {
+    safetySettings: [
       {
-        role: "user",
-        parts: [
-          { text: userMessage },
-        ],
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
       },
     ],
-    config: {
-      systemInstruction,
-      responseModalities: ["text"],
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
-        },
-      ],
-    },
   });
 
-  const text =
-  resp.candidates?.[0]?.content?.parts
-    ?.map((p) => p.text ?? "")
-    .join("")
-    .trim() ?? "";
-  return trimToRange(text, min, max);
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemInstruction },
+    { role: "user", content: userMessage },
+  ];
+  const text = await model.chat({ messages });
+  return (await fitToBudget(text, { min, max }, { model, messages })).text;
 }
 
 (async () => {
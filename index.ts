@@ -1,8 +1,8 @@
-import { GoogleGenAI } from "@google/genai";
+import { createGeminiChatModel } from "./rag/chat-model.ts";
 // import * as fs from "fs";
 
 // The client gets the API key from the environment variable `GEMINI_API_KEY`.
-const ai = new GoogleGenAI({ apiKey: Bun.env.GEMINI_API_KEY });
+const model = createGeminiChatModel("gemini-2.5-flash", { thinkingBudget: 0 });
 // const base64ImageFiles = fs.readFileSync("image.png", { encoding: "base64" });
 // const contents = [
 //     {
@@ -22,17 +22,13 @@ async function main() {
     - Evite blocos longos; quebre em 2-3 linhas curtas.
     - Se a pergunta não for sobre finanças, responda com "Desculpe, não posso ajudar com isso."
 `;
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: "Tenho que me organizar financeiramente para pagar minhas dívidas e economizar para investir. Tenho uma renda de 3200 por mês. Como posso fazer isso?",
-    config: {
-        systemInstruction: "You are a financial advisor that can help with debt repayment and savings. (in brazilian portuguese)",
-        thinkingConfig: {
-            thinkingBudget: 0, 
-        },
-    },
+  const response = await model.chat({
+    messages: [
+        { role: "system", content: "You are a financial advisor that can help with debt repayment and savings. (in brazilian portuguese)" },
+        { role: "user", content: "Tenho que me organizar financeiramente para pagar minhas dívidas e economizar para investir. Tenho uma renda de 3200 por mês. Como posso fazer isso?" },
+    ],
   });
-  console.log(response.text);
+  console.log(response);
 }
 
 main();
\ No newline at end of file
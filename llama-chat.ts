@@ -1,11 +1,12 @@
-import ollama from "ollama";
+import { createOllamaChatModel } from "./rag/chat-model.ts";
 
-const response = await ollama.chat({
-    model: "llama3.1:8b",
+const model = createOllamaChatModel("llama3.1:8b");
+
+const response = await model.chat({
     messages: [
         { role: "system", content: "Você é um assistente de finanças pessoais em português, cordial e claro." },
         { role: "user", content: "" }
     ]
 });
 
-console.log(response.message.content);
\ No newline at end of file
+console.log(response);
\ No newline at end of file
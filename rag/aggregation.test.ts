@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { aggregateTransactions } from "./aggregation.ts";
+import type { SearchResult } from "./vector-db.ts";
+
+function row(id: string, amount: number | undefined, category?: SearchResult["category"]): SearchResult {
+  return {
+    id,
+    userId: "local",
+    text: id,
+    type: "transacional",
+    date: "2025-03-10",
+    source: "teste",
+    amount,
+    category,
+  };
+}
+
+describe("aggregateTransactions", () => {
+  test("gastos não incluem entradas (valores positivos ou categoria renda)", () => {
+    const aggregate = aggregateTransactions([
+      row("mercado", -450, "alimentacao"),
+      row("luz", -180.5, "moradia"),
+      row("salario", 3200, "renda"),
+      row("estorno", 30, "compras"),
+      row("onibus", -120, "transporte"),
+    ]);
+
+    expect(aggregate).toMatchObject({
+      count: 3,
+      sum: 750.5,
+      average: 250.17,
+      income: { count: 2, sum: 3230 },
+    });
+    expect(aggregate.largest?.id).toBe("mercado");
+  });
+
+  test("só entradas: gastos zerados", () => {
+    const aggregate = aggregateTransactions([row("salario", 3200, "renda")]);
+
+    expect(aggregate).toMatchObject({ count: 0, sum: 0, average: 0, income: { count: 1, sum: 3200 } });
+    expect(aggregate.largest).toBeUndefined();
+  });
+
+  test("ignora linhas sem valor", () => {
+    const aggregate = aggregateTransactions([row("insight", undefined), row("uber", -23.5, "transporte")]);
+
+    expect(aggregate).toMatchObject({ count: 1, sum: 23.5, income: { count: 0, sum: 0 } });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Agregação determinística de transações
+ *
+ * Perguntas como "Quanto gastei mês passado?" precisam somar TODAS as
+ * transações do período, não apenas os top-k chunks da busca vetorial.
+ * Aqui os números são calculados em código e injetados no prompt, para que
+ * o modelo apenas os reporte.
+ *
+ * Valores seguem a convenção de todas as ingestões (ver FinancialChunk):
+ * negativo = saída, positivo = entrada. Entradas (valores positivos ou
+ * categoria "renda") ficam fora dos totais de gastos e são somadas à parte.
+ */
+
+import { scanChunks, type SearchResult, type UserScope } from "./vector-db.ts";
+import type { ChunkFilter } from "./filters.ts";
+
+/**
+ * Números calculados sobre as transações do filtro
+ * count/sum/average/largest são dos gastos, em valores positivos
+ */
+export interface TransactionAggregate {
+  count: number;
+  sum: number;
+  average: number;
+  largest?: SearchResult; // Maior gasto
+  income: { count: number; sum: number }; // Entradas do período (fora dos gastos)
+}
+
+/**
+ * Entrada de dinheiro: valor positivo ou categoria "renda"
+ */
+export function isIncome(row: SearchResult): boolean {
+  return row.category === "renda" || (row.amount ?? 0) > 0;
+}
+
+/**
+ * Calcula soma, contagem, média e maior item dos gastos, e o total das entradas
+ * Linhas sem valor (ex: insights) são ignoradas
+ */
+export function aggregateTransactions(rows: SearchResult[]): TransactionAggregate {
+  const withAmount = rows.filter((row) => row.amount !== undefined);
+  const income = withAmount.filter(isIncome);
+  const expenses = withAmount.filter((row) => !isIncome(row));
+  const sum = expenses.reduce((total, row) => total + Math.abs(row.amount ?? 0), 0);
+
+  let largest: SearchResult | undefined;
+  for (const row of expenses) {
+    if (!largest || Math.abs(row.amount ?? 0) > Math.abs(largest.amount ?? 0)) {
+      largest = row;
+    }
+  }
+
+  return {
+    count: expenses.length,
+    sum: roundCents(sum),
+    average: expenses.length > 0 ? roundCents(sum / expenses.length) : 0,
+    largest,
+    income: {
+      count: income.length,
+      sum: roundCents(income.reduce((total, row) => total + Math.abs(row.amount ?? 0), 0)),
+    },
+  };
+}
+
+/**
+ * Varre os chunks do usuário com o filtro do Query Understanding e agrega os valores
+ * A base compartilhada fica de fora: nada dela entra nos totais de um usuário
+ * @param scope Usuário dono dos chunks
+ * @param filter Filtro gerado por understandQuery
+ */
+export async function aggregateByFilter(scope: UserScope, filter: ChunkFilter): Promise<TransactionAggregate> {
+  const rows = await scanChunks(scope, filter, { shared: false });
+  return aggregateTransactions(rows);
+}
+
+/**
+ * Arredonda para centavos (evita 0.30000000000000004 no prompt)
+ */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
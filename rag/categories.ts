@@ -0,0 +1,165 @@
+/**
+ * Categorias de gastos
+ *
+ * Classifica transações em categorias (alimentação, transporte, moradia...)
+ * na ingestão: primeiro por regras (as do usuário têm precedência sobre as
+ * padrão) e, se nenhuma regra casar, por um modelo de chat opcional.
+ */
+
+import type { ChatModel } from "./chat-model.ts";
+import type { NewChunk } from "./vector-db.ts";
+
+export const SPENDING_CATEGORIES = [
+  "alimentacao",
+  "transporte",
+  "moradia",
+  "saude",
+  "educacao",
+  "lazer",
+  "compras",
+  "servicos",
+  "renda",
+  "outros",
+] as const;
+
+export type SpendingCategory = (typeof SPENDING_CATEGORIES)[number];
+
+/**
+ * Regra de classificação: o padrão é testado no texto sem acentos e em minúsculas
+ */
+export interface CategoryRule {
+  category: SpendingCategory;
+  pattern: RegExp;
+}
+
+/**
+ * Regras padrão, em ordem de prioridade
+ * (ex: "mercado livre" precisa vir antes de "mercado")
+ */
+const DEFAULT_RULES: CategoryRule[] = [
+  { category: "renda", pattern: /\b(salario|pro labore|transferencia recebida|pix recebido|rendimento|reembolso|dividendos?)\b/ },
+  { category: "compras", pattern: /\b(mercado ?livre|amazon|shopee|magalu|magazine luiza|americanas|aliexpress|renner|riachuelo|zara|shopping)\b/ },
+  { category: "alimentacao", pattern: /\b(supermercado|mercado|ifood|rappi|restaurante|padaria|lanchonete|acougue|hortifruti|pizzaria|cafeteria|carrefour|assai|atacadao|pao de acucar|alimentos?)\b/ },
+  { category: "transporte", pattern: /\b(uber|99 ?(app|pop|taxi)|onibus|metro|combustivel|gasolina|etanol|posto|estacionamento|pedagio|passagens?|bilhete unico|transporte)\b/ },
+  { category: "moradia", pattern: /\b(aluguel|condominio|luz|energia|enel|cemig|copel|agua|sabesp|gas|iptu|internet|vivo fibra|claro net)\b/ },
+  { category: "saude", pattern: /\b(farmacia|drogaria|droga raia|drogasil|hospital|clinica|medico|dentista|laboratorio|plano de saude|unimed|amil)\b/ },
+  { category: "educacao", pattern: /\b(escola|faculdade|universidade|curso|mensalidade escolar|livraria|udemy|alura)\b/ },
+  { category: "lazer", pattern: /\b(netflix|spotify|disney|cinema|show|ingressos?|viagem|hotel|airbnb|bar)\b/ },
+  { category: "servicos", pattern: /\b(assinatura|tarifa|anuidade|seguro|cabeleireiro|lavanderia|manutencao)\b/ },
+];
+
+let userRules: CategoryRule[] = [];
+
+/**
+ * Adiciona regras do usuário (testadas antes das regras padrão)
+ */
+export function addCategoryRules(rules: CategoryRule[]): void {
+  userRules = [...rules, ...userRules];
+}
+
+/**
+ * Remove todas as regras do usuário
+ */
+export function clearCategoryRules(): void {
+  userRules = [];
+}
+
+/**
+ * Carrega regras do usuário de um arquivo JSON
+ * Formato: [{ "category": "lazer", "pattern": "academia|smartfit" }]
+ */
+export async function loadCategoryRules(path: string): Promise<void> {
+  const raw = (await Bun.file(path).json()) as { category: string; pattern: string }[];
+  addCategoryRules(
+    raw.map(({ category, pattern }) => {
+      if (!isSpendingCategory(category)) {
+        throw new Error(`Categoria inválida em ${path}: ${category}`);
+      }
+      return { category, pattern: new RegExp(normalizeText(pattern)) };
+    })
+  );
+}
+
+/**
+ * Verifica se um valor é uma categoria conhecida
+ */
+export function isSpendingCategory(value: unknown): value is SpendingCategory {
+  return typeof value === "string" && (SPENDING_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Classifica um texto apenas por regras
+ * @returns A categoria ou null se nenhuma regra casar
+ */
+export function classifyByRules(text: string): SpendingCategory | null {
+  const normalized = normalizeText(text);
+  const rule = [...userRules, ...DEFAULT_RULES].find((candidate) => candidate.pattern.test(normalized));
+  return rule?.category ?? null;
+}
+
+/**
+ * Classifica um texto: regras primeiro, modelo de chat como fallback
+ * @param options.model Modelo usado quando nenhuma regra casa (sem modelo: "outros")
+ */
+export async function classifyCategory(
+  text: string,
+  options: { model?: ChatModel } = {}
+): Promise<SpendingCategory> {
+  const byRules = classifyByRules(text);
+  if (byRules) {
+    return byRules;
+  }
+  if (!options.model) {
+    return "outros";
+  }
+
+  try {
+    const content = await options.model.chat({
+      messages: [
+        {
+          role: "system",
+          content: `Classifique a transação financeira em UMA categoria: ${SPENDING_CATEGORIES.join(", ")}.
+Responda APENAS em JSON válido: {"category": "categoria"}`,
+        },
+        { role: "user", content: text },
+      ],
+      json: true,
+      temperature: 0,
+    });
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content) as { category?: unknown };
+    return isSpendingCategory(parsed.category) ? parsed.category : "outros";
+  } catch (error) {
+    console.error("Erro ao classificar categoria:", error);
+    return "outros";
+  }
+}
+
+/**
+ * Preenche a categoria dos chunks transacionais que ainda não têm uma
+ * @param options.model Modelo de fallback (ver classifyCategory)
+ */
+export async function categorizeChunks<T extends Omit<NewChunk, "embedding">>(
+  chunks: T[],
+  options: { model?: ChatModel } = {}
+): Promise<T[]> {
+  const categorized: T[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type !== "transacional" || chunk.category) {
+      categorized.push(chunk);
+      continue;
+    }
+    categorized.push({ ...chunk, category: await classifyCategory(chunk.text, options) });
+  }
+  return categorized;
+}
+
+/**
+ * Texto em minúsculas e sem acentos, para as regras
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
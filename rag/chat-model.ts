@@ -0,0 +1,328 @@
+/**
+ * Interface única de modelos de chat
+ *
+ * Unifica Gemini (@google/genai), Ollama (Llama) e um modelo roteirizado
+ * (determinístico, sem rede) atrás do mesmo contrato, para que cada etapa
+ * do pipeline possa usar um provedor diferente. Ex: Llama extrai a intenção
+ * e Gemini gera a resposta.
+ */
+
+import ollama from "ollama";
+import { GoogleGenAI, type Content, type GenerateContentParameters, type SafetySetting } from "@google/genai";
+import { fallbackIntentExtraction } from "./intent-rules.ts";
+
+export type ChatProvider = "ollama" | "gemini" | "mock";
+
+/**
+ * Mensagem enviada ao modelo
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Requisição de chat independente de provedor
+ */
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number; // Limite de tokens gerados
+  json?: boolean; // Força resposta em JSON
+}
+
+/**
+ * Modelo de chat
+ */
+export interface ChatModel {
+  provider: ChatProvider;
+  model: string;
+  chat(request: ChatRequest): Promise<string>;
+  /**
+   * Mesma requisição, com a resposta em pedaços de texto à medida que é gerada
+   * Interromper a iteração (break/return) cancela a geração
+   */
+  stream(request: ChatRequest): AsyncIterable<string>;
+}
+
+/**
+ * Modelos usados em cada etapa do pipeline RAG
+ */
+export interface PipelineModels {
+  intent: ChatModel; // Extração de intenção (Query Understanding)
+  answer: ChatModel; // Geração da resposta final
+}
+
+/**
+ * Modelo de chat via Ollama
+ * @param model Nome do modelo no Ollama (padrão: llama3.1:8b)
+ */
+export function createOllamaChatModel(model: string = "llama3.1:8b"): ChatModel {
+  return {
+    provider: "ollama",
+    model,
+    async chat(request: ChatRequest): Promise<string> {
+      const response = await ollama.chat({
+        model,
+        messages: request.messages,
+        format: request.json ? "json" : undefined,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      });
+      return response.message.content;
+    },
+    async *stream(request: ChatRequest): AsyncIterable<string> {
+      const response = await ollama.chat({
+        model,
+        messages: request.messages,
+        format: request.json ? "json" : undefined,
+        stream: true,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      });
+
+      let finished = false;
+      try {
+        for await (const part of response) {
+          if (part.message.content) {
+            yield part.message.content;
+          }
+        }
+        finished = true;
+      } finally {
+        // Quem consome parou antes do fim: cancela a requisição no Ollama
+        if (!finished) {
+          response.abort();
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Modelo de chat via Gemini
+ * @param model Nome do modelo no Gemini (padrão: gemini-2.5-flash)
+ * @param options.apiKey Chave da API (padrão: GEMINI_API_KEY)
+ * @param options.safetySettings Configurações de segurança do Gemini
+ * @param options.thinkingBudget Orçamento de "thinking" (0 desativa)
+ */
+export function createGeminiChatModel(
+  model: string = "gemini-2.5-flash",
+  options: { apiKey?: string; safetySettings?: SafetySetting[]; thinkingBudget?: number } = {}
+): ChatModel {
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    provider: "gemini",
+    model,
+    async chat(request: ChatRequest): Promise<string> {
+      const response = await getClient().models.generateContent(toGeminiRequest(request));
+      return response.text ?? "";
+    },
+    async *stream(request: ChatRequest): AsyncIterable<string> {
+      const response = await getClient().models.generateContentStream(toGeminiRequest(request));
+      for await (const part of response) {
+        if (part.text) {
+          yield part.text;
+        }
+      }
+    },
+  };
+
+  // Cliente criado sob demanda para não exigir a chave quando o Gemini não é usado
+  function getClient(): GoogleGenAI {
+    ai ??= new GoogleGenAI({ apiKey: options.apiKey ?? Bun.env.GEMINI_API_KEY });
+    return ai;
+  }
+
+  function toGeminiRequest(request: ChatRequest): GenerateContentParameters {
+    const systemInstruction = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n");
+    const contents: Content[] = request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [{ text: message.content }],
+      }));
+
+    return {
+      model,
+      contents,
+      config: {
+        systemInstruction: systemInstruction || undefined,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: request.json ? "application/json" : undefined,
+        safetySettings: options.safetySettings,
+        thinkingConfig: options.thinkingBudget !== undefined
+          ? { thinkingBudget: options.thinkingBudget }
+          : undefined,
+      },
+    };
+  }
+}
+
+/**
+ * Roteiro de um modelo roteirizado: respostas em sequência ou função de resposta
+ */
+export type ChatScript = string[] | ((request: ChatRequest) => string);
+
+/**
+ * Modelo roteirizado, com as requisições recebidas (útil para inspeção)
+ */
+export interface ScriptedChatModel extends ChatModel {
+  requests: ChatRequest[];
+}
+
+/**
+ * Modelo de chat determinístico, sem rede
+ *
+ * Com uma lista, devolve as respostas em ordem e repete a última quando acabar.
+ * Com uma função, delega a resposta a ela. Permite rodar o ragChat offline.
+ */
+export function createScriptedChatModel(script: ChatScript, model: string = "scripted"): ScriptedChatModel {
+  const requests: ChatRequest[] = [];
+
+  function respond(request: ChatRequest): string {
+    requests.push(request);
+    if (typeof script === "function") {
+      return script(request);
+    }
+    if (script.length === 0) {
+      throw new Error("Modelo roteirizado sem respostas");
+    }
+    return script[Math.min(requests.length - 1, script.length - 1)] ?? "";
+  }
+
+  return {
+    provider: "mock",
+    model,
+    requests,
+    async chat(request: ChatRequest): Promise<string> {
+      return respond(request);
+    },
+    async *stream(request: ChatRequest): AsyncIterable<string> {
+      // Entrega a resposta palavra a palavra, como um modelo real
+      for (const piece of respond(request).match(/\S+\s*|\s+/g) ?? []) {
+        yield piece;
+      }
+    },
+  };
+}
+
+/**
+ * Intenção offline: as regras do fallback, respondendo no formato do extrator
+ * @param currentDate Data de referência (padrão: a "DATA ATUAL" do prompt do extrator)
+ */
+export function createRuleBasedIntentModel(currentDate?: Date): ChatModel {
+  return createScriptedChatModel((request) => {
+    const query = request.messages.at(-1)?.content ?? "";
+    return JSON.stringify(fallbackIntentExtraction(query, currentDate ?? promptDate(request) ?? new Date()));
+  }, "rules");
+}
+
+/**
+ * Resposta offline: total calculado (se houver) + conteúdo de cada contexto, com citação
+ * Pedidos de continuação/correção (após uma resposta) recebem resposta vazia
+ */
+export function createExtractiveAnswerModel(): ChatModel {
+  return createScriptedChatModel((request) => {
+    if (request.messages.at(-2)?.role === "assistant") {
+      return "";
+    }
+    const prompt = request.messages.at(-1)?.content ?? "";
+    const total = prompt.match(/- Soma: (R\$ -?[\d.]+)/)?.[1];
+    const contexts = [...prompt.matchAll(/\[Contexto (\d+)\][\s\S]*?Conteúdo: ([^\n]*)/g)].map(
+      ([, index, text]) => `${(text ?? "").trim().replace(/[.!?]$/, "")} [${index}].`
+    );
+    const parts = [total ? `Total: ${total}.` : "", ...contexts].filter(Boolean);
+    return parts.length > 0 ? parts.join(" ") : "Não tenho informações suficientes sobre isso.";
+  }, "extractive");
+}
+
+/**
+ * Modelo offline para todas as etapas (provedor "mock")
+ * O extrator de intenção (JSON com "DATA ATUAL" no prompt) recebe as regras;
+ * outros pedidos em JSON recebem "{}" (quem chama usa o próprio fallback);
+ * o resto recebe a resposta extrativa.
+ */
+export function createOfflineChatModel(model: string = "offline"): ChatModel {
+  const intent = createRuleBasedIntentModel();
+  const answer = createExtractiveAnswerModel();
+  const route = (request: ChatRequest): ChatModel | null =>
+    !request.json ? answer : promptDate(request) ? intent : null;
+
+  return {
+    provider: "mock",
+    model,
+    async chat(request: ChatRequest): Promise<string> {
+      return (await route(request)?.chat(request)) ?? "{}";
+    },
+    async *stream(request: ChatRequest): AsyncIterable<string> {
+      yield* route(request)?.stream(request) ?? ["{}"];
+    },
+  };
+}
+
+/**
+ * "DATA ATUAL: quinta-feira, 10/04/2025" no prompt de sistema do extrator de intenção
+ */
+function promptDate(request: ChatRequest): Date | null {
+  const system = request.messages.find((message) => message.role === "system")?.content ?? "";
+  const match = system.match(/DATA ATUAL:[^\n]*?(\d{2})\/(\d{2})\/(\d{4})/);
+  return match ? new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1])) : null;
+}
+
+/**
+ * Cria um modelo de chat pelo nome do provedor
+ * @param provider "ollama", "gemini" ou "mock" (offline: regras e resposta extrativa)
+ * @param model Nome do modelo (padrão do provedor se omitido)
+ */
+export function createChatModel(provider: ChatProvider, model?: string): ChatModel {
+  switch (provider) {
+    case "ollama":
+      return createOllamaChatModel(model);
+    case "gemini":
+      return createGeminiChatModel(model);
+    case "mock":
+      return createOfflineChatModel(model);
+    default:
+      throw new Error(`Provedor de chat desconhecido: ${provider}`);
+  }
+}
+
+/**
+ * Modelos padrão do pipeline
+ *
+ * Configuráveis por ambiente: RAG_INTENT_PROVIDER/RAG_INTENT_MODEL e
+ * RAG_ANSWER_PROVIDER/RAG_ANSWER_MODEL (padrão: Ollama com llama3.1:8b).
+ */
+export function getDefaultModels(): PipelineModels {
+  return {
+    intent: createChatModel(
+      (Bun.env.RAG_INTENT_PROVIDER as ChatProvider | undefined) ?? "ollama",
+      Bun.env.RAG_INTENT_MODEL
+    ),
+    answer: createChatModel(
+      (Bun.env.RAG_ANSWER_PROVIDER as ChatProvider | undefined) ?? "ollama",
+      Bun.env.RAG_ANSWER_MODEL
+    ),
+  };
+}
+
+/**
+ * Completa os modelos informados com os padrões para as etapas restantes
+ */
+export function resolveModels(models: Partial<PipelineModels> = {}): PipelineModels {
+  const defaults = getDefaultModels();
+  return {
+    intent: models.intent ?? defaults.intent,
+    answer: models.answer ?? defaults.answer,
+  };
+}
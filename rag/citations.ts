@@ -0,0 +1,76 @@
+/**
+ * Citações inline
+ *
+ * O modelo recebe os chunks como blocos "[Contexto N]" e é instruído a citar
+ * a fonte de cada afirmação com "[N]". Aqui as citações são lidas da
+ * resposta e conferidas contra os chunks usados: números fora do intervalo
+ * são removidos do texto e os válidos viram referências estruturadas (id,
+ * data e fonte do chunk), para o usuário conferir cada número.
+ */
+
+import type { ChunkType } from "./filters.ts";
+import type { SearchResult } from "./vector-db.ts";
+
+/**
+ * Chunk citado na resposta
+ */
+export interface Citation {
+  index: number; // N em "[N]" (1 = primeiro chunk de chunksUsed)
+  id: string;
+  type: ChunkType;
+  date: string;
+  source: string;
+  amount?: number;
+}
+
+/**
+ * Resposta com as citações conferidas
+ */
+export interface CitedAnswer {
+  text: string; // Resposta sem as citações inválidas
+  citations: Citation[]; // Na ordem da primeira menção
+  invalid: number[]; // Números citados sem chunk correspondente
+}
+
+/**
+ * "[2]", "[1, 3]", "[1][2]" ou "[Contexto 2]" (com o espaço que antecede)
+ */
+const CITATION_PATTERN = /\s*\[(?:contexto\s*)?(\d+(?:\s*[,;]\s*\d+)*)\]/gi;
+
+/**
+ * Confere as citações da resposta contra os chunks usados
+ */
+export function extractCitations(text: string, chunks: SearchResult[]): CitedAnswer {
+  const cited = new Set<number>();
+  const invalid = new Set<number>();
+
+  const cleaned = text.replace(CITATION_PATTERN, (marker, list: string) => {
+    const indexes = list.split(/[,;]/).map((value) => Number(value.trim()));
+    const valid = indexes.filter((index) => index >= 1 && index <= chunks.length);
+    for (const index of indexes) {
+      (valid.includes(index) ? cited : invalid).add(index);
+    }
+    if (valid.length === 0) {
+      return "";
+    }
+    const spacing = marker.match(/^\s*/)?.[0] ?? "";
+    return `${spacing}${[...new Set(valid)].map((index) => `[${index}]`).join("")}`;
+  });
+
+  return {
+    text: cleaned,
+    citations: [...cited].map((index) => toCitation(index, chunks[index - 1]!)),
+    invalid: [...invalid],
+  };
+}
+
+function toCitation(index: number, chunk: SearchResult): Citation {
+  return {
+    index,
+    id: chunk.id,
+    type: chunk.type,
+    date: chunk.date,
+    source: chunk.source,
+    amount: chunk.amount,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Memória de conversa para o chat com RAG
+ *
+ * Guarda o histórico de turnos (usuário/assistente) e a intenção resolvida
+ * de cada pergunta, para que follow-ups como "e no mês anterior?" possam
+ * herdar o período, o tipo e o contexto do turno anterior.
+ */
+
+import type { QueryIntent } from "./query-understanding.ts";
+
+/**
+ * Mensagem do histórico no formato esperado pelos modelos de chat
+ */
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Um turno da conversa
+ */
+export interface ConversationTurn extends HistoryMessage {
+  intent?: QueryIntent; // Presente apenas nos turnos do usuário
+}
+
+/**
+ * Sessão de conversa
+ */
+export interface Conversation {
+  id: string;
+  turns: ConversationTurn[];
+  maxHistoryTurns: number; // Quantos turnos são enviados ao modelo
+}
+
+/**
+ * Cria uma nova sessão de conversa
+ * @param options.id Identificador da sessão (padrão: UUID aleatório)
+ * @param options.maxHistoryTurns Máximo de turnos enviados ao modelo (padrão: 6)
+ */
+export function createConversation(
+  options: { id?: string; maxHistoryTurns?: number } = {}
+): Conversation {
+  return {
+    id: options.id ?? crypto.randomUUID(),
+    turns: [],
+    maxHistoryTurns: options.maxHistoryTurns ?? 6,
+  };
+}
+
+/**
+ * Retorna os últimos turnos da conversa no formato de mensagens para o modelo
+ */
+export function getHistory(conversation: Conversation): HistoryMessage[] {
+  return conversation.turns
+    .slice(-conversation.maxHistoryTurns)
+    .map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * Retorna a intenção resolvida da última pergunta do usuário (se houver)
+ */
+export function getLastIntent(conversation: Conversation): QueryIntent | undefined {
+  for (let i = conversation.turns.length - 1; i >= 0; i--) {
+    const turn = conversation.turns[i];
+    if (turn?.role === "user" && turn.intent) {
+      return turn.intent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Registra uma troca completa (pergunta + resposta) na conversa
+ */
+export function recordExchange(
+  conversation: Conversation,
+  userMessage: string,
+  response: string,
+  intent: QueryIntent
+): void {
+  conversation.turns.push({ role: "user", content: userMessage, intent });
+  conversation.turns.push({ role: "assistant", content: response });
+}
+
+/**
+ * Limpa o histórico da conversa
+ */
+export function resetConversation(conversation: Conversation): void {
+  conversation.turns = [];
+}
@@ -0,0 +1,103 @@
+/**
+ * Cache persistente de embeddings (SQLite)
+ *
+ * Seeds e reimportações repetem os mesmos textos: o vetor de cada texto é
+ * guardado pela chave (modelo, sha256 do texto) e reaproveitado, sem chamar o
+ * provedor de novo. Trocar de modelo não invalida nada, só usa outras chaves.
+ *
+ * O arquivo fica em RAG_EMBEDDING_CACHE_PATH (padrão:
+ * ./data/embedding-cache.sqlite); setEmbeddingCachePath(null) desliga o cache.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+const DEFAULT_CACHE_PATH = "./data/embedding-cache.sqlite";
+
+let cachePath: string | null = Bun.env.RAG_EMBEDDING_CACHE_PATH ?? DEFAULT_CACHE_PATH;
+let cache: Database | null = null;
+
+/**
+ * Troca o arquivo do cache (null desliga o cache)
+ */
+export function setEmbeddingCachePath(path: string | null): void {
+  closeEmbeddingCache();
+  cachePath = path;
+}
+
+/**
+ * Fecha o arquivo do cache (reaberto no próximo uso)
+ */
+export function closeEmbeddingCache(): void {
+  cache?.close();
+  cache = null;
+}
+
+/**
+ * Chave de conteúdo de um texto
+ */
+export function embeddingKey(text: string): string {
+  return new Bun.CryptoHasher("sha256").update(text).digest("hex");
+}
+
+function openCache(): Database | null {
+  if (!cachePath) {
+    return null;
+  }
+  if (!cache) {
+    if (cachePath !== ":memory:") {
+      mkdirSync(dirname(cachePath), { recursive: true });
+    }
+    cache = new Database(cachePath, { create: true });
+    cache.exec("PRAGMA journal_mode = WAL");
+    cache.exec(`CREATE TABLE IF NOT EXISTS embeddings (
+      model TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      PRIMARY KEY (model, hash)
+    )`);
+  }
+  return cache;
+}
+
+/**
+ * Busca os vetores já calculados para os textos
+ * @returns Vetores por texto (textos fora do cache ficam de fora)
+ */
+export function getCachedEmbeddings(model: string, texts: string[]): Map<string, number[]> {
+  const found = new Map<string, number[]>();
+  const database = openCache();
+  if (!database) {
+    return found;
+  }
+
+  const select = database.query<{ vector: Uint8Array }, [string, string]>(
+    "SELECT vector FROM embeddings WHERE model = ? AND hash = ?"
+  );
+  for (const text of texts) {
+    const row = select.get(model, embeddingKey(text));
+    if (row) {
+      const bytes = row.vector;
+      found.set(text, Array.from(new Float64Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 8)));
+    }
+  }
+  return found;
+}
+
+/**
+ * Guarda vetores calculados (Float64: o vetor volta idêntico ao original)
+ */
+export function cacheEmbeddings(model: string, entries: [text: string, embedding: number[]][]): void {
+  const database = openCache();
+  if (!database || entries.length === 0) {
+    return;
+  }
+
+  const insert = database.query("INSERT OR REPLACE INTO embeddings (model, hash, vector) VALUES (?, ?, ?)");
+  database.transaction(() => {
+    for (const [text, embedding] of entries) {
+      insert.run(model, embeddingKey(text), new Uint8Array(new Float64Array(embedding).buffer));
+    }
+  })();
+}
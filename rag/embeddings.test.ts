@@ -0,0 +1,200 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { Ollama } from "ollama";
+import {
+  createOllamaEmbedder,
+  generateEmbeddingsBatch,
+  type EmbeddingProgress,
+  type EmbeddingProvider,
+} from "./embeddings.ts";
+import { setEmbeddingCachePath } from "./embedding-cache.ts";
+
+const DIMENSION = 4;
+
+/**
+ * Ollama falso: /api/embed devolve vetores normalizados e o legado
+ * /api/embeddings, o mesmo vetor sem normalizar (como o servidor real)
+ */
+function createFakeOllama(paths: string[]): Ollama {
+  const raw = (text: string) => Array.from({ length: DIMENSION }, (_, index) => text.length + index);
+  const normalize = (vector: number[]) => {
+    const norm = Math.hypot(...vector);
+    return vector.map((value) => value / norm);
+  };
+
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const { pathname } = new URL(String(input));
+    paths.push(pathname);
+    const body = JSON.parse(String(init?.body));
+    const payload =
+      pathname === "/api/embed"
+        ? { embeddings: [body.input].flat().map((text: string) => normalize(raw(text))) }
+        : { embedding: raw(body.prompt) };
+    return new Response(JSON.stringify(payload), { headers: { "Content-Type": "application/json" } });
+  };
+  return new Ollama({ host: "http://ollama.test", fetch: fakeFetch as typeof fetch });
+}
+
+describe("createOllamaEmbedder", () => {
+  test("embed e embedBatch devolvem o mesmo vetor para o mesmo texto", async () => {
+    const paths: string[] = [];
+    const embedder = createOllamaEmbedder("nomic-embed-text", DIMENSION, createFakeOllama(paths));
+
+    const single = await embedder.embed("gasto com farmácia");
+    const [batched] = await embedder.embedBatch!(["gasto com farmácia", "salário"]);
+
+    expect(single).toEqual(batched!);
+    expect(paths).toEqual(["/api/embed", "/api/embed"]);
+  });
+
+  test("recusa vetores da dimensão errada", async () => {
+    const embedder = createOllamaEmbedder("nomic-embed-text", 768, createFakeOllama([]));
+
+    await expect(embedder.embed("texto")).rejects.toThrow("retornou 4 dimensões (esperado: 768)");
+  });
+});
+
+/**
+ * Provedor roteirizado: registra os lotes pedidos e as chamadas simultâneas
+ * @param fail Erro a lançar na chamada de número informado (a partir de 0), se houver
+ */
+function createScriptedEmbedder(model: string, fail?: (call: number) => unknown) {
+  const batches: string[][] = [];
+  let active = 0;
+  let maxActive = 0;
+  const provider: EmbeddingProvider = {
+    model,
+    dimension: 1,
+    async embed(text) {
+      return [text.length];
+    },
+    async embedBatch(texts) {
+      const call = batches.length;
+      batches.push(texts);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      try {
+        await Bun.sleep(5);
+        const error = fail?.(call);
+        if (error) {
+          throw error;
+        }
+        return texts.map((text) => [text.length]);
+      } finally {
+        active--;
+      }
+    },
+  };
+  return { provider, batches, maxActive: () => maxActive };
+}
+
+const quiet = { onProgress: () => {} };
+
+describe("generateEmbeddingsBatch", () => {
+  beforeEach(() => {
+    setEmbeddingCachePath(":memory:");
+  });
+
+  afterAll(() => {
+    setEmbeddingCachePath(null);
+  });
+
+  test("textos repetidos são calculados uma vez e voltam na ordem da entrada", async () => {
+    const { provider, batches } = createScriptedEmbedder("modelo-a");
+
+    const vectors = await generateEmbeddingsBatch(["a", "bb", "a", "ccc", "bb"], provider, quiet);
+
+    expect(vectors).toEqual([[1], [2], [1], [3], [2]]);
+    expect(batches).toEqual([["a", "bb", "ccc"]]);
+  });
+
+  test("o cache é por modelo", async () => {
+    const first = createScriptedEmbedder("modelo-a");
+    await generateEmbeddingsBatch(["a", "bb"], first.provider, quiet);
+
+    const sameModel = createScriptedEmbedder("modelo-a");
+    expect(await generateEmbeddingsBatch(["a", "bb", "ccc"], sameModel.provider, quiet)).toEqual([[1], [2], [3]]);
+    expect(sameModel.batches).toEqual([["ccc"]]);
+
+    const otherModel = createScriptedEmbedder("modelo-b");
+    await generateEmbeddingsBatch(["a", "bb"], otherModel.provider, quiet);
+    expect(otherModel.batches).toEqual([["a", "bb"]]);
+  });
+
+  test("provedor com cache desligado não lê nem grava o cache", async () => {
+    const first = createScriptedEmbedder("modelo-a");
+    first.provider.cache = false;
+    await generateEmbeddingsBatch(["a"], first.provider, quiet);
+
+    const second = createScriptedEmbedder("modelo-a");
+    await generateEmbeddingsBatch(["a"], second.provider, quiet);
+    expect(second.batches).toEqual([["a"]]);
+  });
+
+  test("no máximo concurrency chamadas ao mesmo tempo", async () => {
+    const { provider, batches, maxActive } = createScriptedEmbedder("modelo-a");
+    const texts = Array.from({ length: 10 }, (_, index) => `texto ${index}`);
+
+    await generateEmbeddingsBatch(texts, provider, { ...quiet, batchSize: 1, concurrency: 3 });
+
+    expect(batches).toHaveLength(10);
+    expect(maxActive()).toBe(3);
+  });
+
+  test("onProgress conta textos distintos, incluindo os do cache", async () => {
+    await generateEmbeddingsBatch(["a", "bb"], createScriptedEmbedder("modelo-a").provider, quiet);
+    const progress: EmbeddingProgress[] = [];
+
+    const texts = ["a", "bb", "ccc", "dddd", "eeeee", "a"];
+    await generateEmbeddingsBatch(texts, createScriptedEmbedder("modelo-a").provider, {
+      batchSize: 2,
+      concurrency: 1,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(progress).toEqual([
+      { done: 4, total: 5, cached: 2 },
+      { done: 5, total: 5, cached: 2 },
+    ]);
+  });
+
+  test("tudo no cache: um único progresso completo", async () => {
+    await generateEmbeddingsBatch(["a"], createScriptedEmbedder("modelo-a").provider, quiet);
+    const progress: EmbeddingProgress[] = [];
+
+    await generateEmbeddingsBatch(["a"], createScriptedEmbedder("modelo-a").provider, {
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(progress).toEqual([{ done: 1, total: 1, cached: 1 }]);
+  });
+
+  test.each([
+    ["HTTP 503", { status_code: 503 }],
+    ["ECONNRESET", Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })],
+  ])("%s: nova tentativa", async (_, error) => {
+    const { provider, batches } = createScriptedEmbedder("modelo-a", (call) => (call === 0 ? error : undefined));
+
+    expect(await generateEmbeddingsBatch(["a"], provider, quiet)).toEqual([[1]]);
+    expect(batches).toHaveLength(2);
+  });
+
+  test("HTTP 400 falha sem nova tentativa", async () => {
+    const { provider, batches } = createScriptedEmbedder("modelo-a", () =>
+      Object.assign(new Error("input inválido"), { status_code: 400 })
+    );
+
+    await expect(generateEmbeddingsBatch(["a"], provider, quiet)).rejects.toThrow(
+      "Falha ao gerar embeddings: input inválido"
+    );
+    expect(batches).toHaveLength(1);
+  });
+
+  test("desiste depois de retries novas tentativas", async () => {
+    const { provider, batches } = createScriptedEmbedder("modelo-a", () => ({ status_code: 500 }));
+
+    await expect(generateEmbeddingsBatch(["a"], provider, { ...quiet, retries: 1 })).rejects.toThrow(
+      "Falha ao gerar embeddings"
+    );
+    expect(batches).toHaveLength(2);
+  });
+});
@@ -1,27 +1,185 @@
 /**
- * Geração de embeddings via Ollama usando nomic-embed-text
- * Retorna vetores de 768 dimensões
+ * Geração de embeddings
+ *
+ * Provedores disponíveis:
+ * - Ollama (padrão): nomic-embed-text, vetores de 768 dimensões
+ * - Hashing: n-gramas com hashing, determinístico e offline (testes e CI)
+ *
+ * O provedor ativo pode ser trocado com setEmbeddingProvider() ou pela
+ * variável de ambiente RAG_EMBEDDING_PROVIDER ("ollama" | "hashing").
+ *
+ * Em lote (generateEmbeddingsBatch), os vetores já calculados vêm do cache
+ * persistente (ver embedding-cache.ts) e o restante é pedido ao provedor em
+ * lotes, com concorrência limitada e novas tentativas em falhas transitórias.
  */
 
-import ollama from "ollama";
+import ollama, { type Ollama } from "ollama";
+import { cacheEmbeddings, getCachedEmbeddings } from "./embedding-cache.ts";
 
 /**
- * Gera embedding para um texto usando nomic-embed-text via Ollama
- * @param text Texto para gerar embedding
- * @returns Array de números representando o vetor de embedding (768 dimensões)
+ * Provedor de embeddings
+ * O par model/dimension é gravado com a tabela para evitar misturar vetores
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await ollama.embeddings({
-      model: "nomic-embed-text",
-      prompt: text,
-    });
+export interface EmbeddingProvider {
+  model: string;
+  dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>; // Vários textos numa chamada (sem ele: um embed por texto)
+  cache?: boolean; // Usa o cache persistente (padrão: true)
+}
 
-    if (!response.embedding || response.embedding.length === 0) {
-      throw new Error("Embedding vazio retornado pelo Ollama");
-    }
+/**
+ * Opções de generateEmbeddingsBatch
+ */
+export interface EmbeddingBatchOptions {
+  batchSize?: number; // Textos por chamada ao provedor (padrão: 32)
+  concurrency?: number; // Chamadas simultâneas (padrão: RAG_EMBEDDING_CONCURRENCY ou 4)
+  retries?: number; // Novas tentativas de um lote em falhas transitórias (padrão: 3)
+  onProgress?: (progress: EmbeddingProgress) => void; // Padrão: log no console
+}
+
+/**
+ * Andamento de um lote de embeddings (contado em textos distintos)
+ */
+export interface EmbeddingProgress {
+  done: number;
+  total: number;
+  cached: number; // Reaproveitados do cache
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500; // Dobra a cada tentativa
+
+// Falhas de conexão/timeout: o Ollama pode estar reiniciando ou sobrecarregado
+const TRANSIENT_ERROR_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EPIPE", "ConnectionClosed"]);
+
+/**
+ * Provedor de embeddings via Ollama
+ * Consultas e documentos usam o mesmo endpoint (/api/embed, vetores
+ * normalizados): o legado /api/embeddings devolve outra escala para o mesmo texto
+ * @param model Modelo de embedding no Ollama (padrão: nomic-embed-text)
+ * @param dimension Dimensão dos vetores gerados pelo modelo (padrão: 768)
+ * @param client Cliente do Ollama (padrão: o cliente padrão do pacote ollama)
+ */
+export function createOllamaEmbedder(
+  model: string = "nomic-embed-text",
+  dimension: number = 768,
+  client: Ollama = ollama
+): EmbeddingProvider {
+  return {
+    model,
+    dimension,
+    async embed(text: string): Promise<number[]> {
+      const response = await client.embed({ model, input: text });
+      return checkOllamaEmbedding(response.embeddings[0], model, dimension);
+    },
+    async embedBatch(texts: string[]): Promise<number[][]> {
+      const response = await client.embed({ model, input: texts });
+      return response.embeddings.map((embedding) => checkOllamaEmbedding(embedding, model, dimension));
+    },
+  };
+}
+
+function checkOllamaEmbedding(embedding: number[] | undefined, model: string, dimension: number): number[] {
+  if (!embedding || embedding.length === 0) {
+    throw new Error("Embedding vazio retornado pelo Ollama");
+  }
+  if (embedding.length !== dimension) {
+    throw new Error(`Modelo ${model} retornou ${embedding.length} dimensões (esperado: ${dimension})`);
+  }
+  return embedding;
+}
+
+/**
+ * Provedor de embeddings determinístico e offline
+ *
+ * Projeta palavras e trigramas de caracteres em um vetor de tamanho fixo via
+ * hashing (FNV-1a) e normaliza em L2. Não captura sinônimos, mas textos com
+ * termos em comum ficam próximos, o que basta para testes e CI.
+ * @param dimension Dimensão dos vetores (padrão: 256)
+ */
+export function createHashingEmbedder(dimension: number = 256): EmbeddingProvider {
+  return {
+    model: `hashing-ngram-${dimension}`,
+    dimension,
+    cache: false, // Calcular é mais barato que ler do cache
+    async embed(text: string): Promise<number[]> {
+      const vector = new Array<number>(dimension).fill(0);
+      const words = text
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 0);
+
+      const addFeature = (feature: string, weight: number) => {
+        const hash = fnv1a(feature);
+        const sign = (hash >>> 16) & 1 ? 1 : -1;
+        const index = hash % dimension;
+        vector[index] = (vector[index] ?? 0) + sign * weight;
+      };
+
+      for (const word of words) {
+        addFeature(`w:${word}`, 1);
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+        }
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm === 0 ? vector : vector.map((value) => value / norm);
+    },
+  };
+}
+
+/**
+ * Hash FNV-1a de 32 bits (sem sinal)
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Retorna o provedor de embeddings ativo
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = Bun.env.RAG_EMBEDDING_PROVIDER === "hashing"
+      ? createHashingEmbedder()
+      : createOllamaEmbedder();
+  }
+  return activeProvider;
+}
+
+/**
+ * Define o provedor de embeddings ativo
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  activeProvider = provider;
+}
 
-    return response.embedding;
+/**
+ * Gera embedding para um texto
+ * @param text Texto para gerar embedding
+ * @param provider Provedor de embeddings (padrão: provedor ativo)
+ * @returns Array de números representando o vetor de embedding
+ */
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  try {
+    return await provider.embed(text);
   } catch (error) {
     console.error("Erro ao gerar embedding:", error);
     throw new Error(`Falha ao gerar embedding: ${error instanceof Error ? error.message : String(error)}`);
@@ -30,12 +188,122 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 
 /**
  * Gera embeddings em batch (útil para popular o vector DB)
+ * Textos repetidos são calculados uma vez; os já calculados vêm do cache e
+ * os novos são gravados nele à medida que cada lote termina.
  * @param texts Array de textos para gerar embeddings
- * @returns Array de embeddings
+ * @param provider Provedor de embeddings (padrão: provedor ativo)
+ * @param options Tamanho dos lotes, concorrência, novas tentativas e progresso
+ * @returns Array de embeddings, na ordem dos textos
+ */
+export async function generateEmbeddingsBatch(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  options: EmbeddingBatchOptions = {}
+): Promise<number[][]> {
+  const {
+    batchSize = DEFAULT_BATCH_SIZE,
+    concurrency = defaultConcurrency(),
+    retries = DEFAULT_RETRIES,
+    onProgress = logProgress,
+  } = options;
+  if (!Number.isInteger(batchSize) || batchSize < 1 || !Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`batchSize e concurrency devem ser inteiros positivos (recebido: ${batchSize}, ${concurrency})`);
+  }
+
+  const unique = [...new Set(texts)];
+  const useCache = provider.cache !== false;
+  const vectors = useCache ? getCachedEmbeddings(provider.model, unique) : new Map<string, number[]>();
+  const progress: EmbeddingProgress = { done: vectors.size, total: unique.length, cached: vectors.size };
+
+  const missing = unique.filter((text) => !vectors.has(text));
+  const batches: string[][] = [];
+  for (let start = 0; start < missing.length; start += batchSize) {
+    batches.push(missing.slice(start, start + batchSize));
+  }
+  if (unique.length > 0 && batches.length === 0) {
+    onProgress({ ...progress });
+  }
+
+  // Pool de workers: cada um pega o próximo lote até acabarem (ou um falhar)
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < batches.length) {
+      const batch = batches[next++]!;
+      let embeddings: number[][];
+      try {
+        embeddings = await withRetries(() => embedBatch(batch, provider), retries);
+      } catch (error) {
+        failed = true;
+        console.error("Erro ao gerar embeddings:", error);
+        throw new Error(`Falha ao gerar embeddings: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const entries = batch.map((text, index): [string, number[]] => [text, embeddings[index]!]);
+      for (const [text, embedding] of entries) {
+        vectors.set(text, embedding);
+      }
+      if (useCache) {
+        cacheEmbeddings(provider.model, entries);
+      }
+      progress.done += batch.length;
+      onProgress({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+  return texts.map((text) => vectors.get(text)!);
+}
+
+/**
+ * Um lote numa chamada (embedBatch) ou, se o provedor não suportar, um embed por texto
  */
-export async function generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
-  const embeddings = await Promise.all(
-    texts.map(text => generateEmbedding(text))
-  );
+async function embedBatch(texts: string[], provider: EmbeddingProvider): Promise<number[][]> {
+  const embeddings = provider.embedBatch
+    ? await provider.embedBatch(texts)
+    : await Promise.all(texts.map((text) => provider.embed(text)));
+  if (embeddings.length !== texts.length) {
+    throw new Error(`Provedor retornou ${embeddings.length} embeddings para ${texts.length} textos`);
+  }
   return embeddings;
 }
+
+/**
+ * Repete a operação em falhas transitórias, com espera exponencial
+ */
+async function withRetries<T>(operation: () => Promise<T>, retries: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(
+        `Falha transitória ao gerar embeddings (${error instanceof Error ? error.message : String(error)}), nova tentativa em ${delay}ms...`
+      );
+      await Bun.sleep(delay);
+    }
+  }
+}
+
+/**
+ * Falhas de conexão, timeouts, HTTP 429 e 5xx (o ResponseError do Ollama traz status_code)
+ */
+function isTransientError(error: unknown): boolean {
+  const { status_code: status, code } = (error ?? {}) as { status_code?: unknown; code?: unknown };
+  if (typeof status === "number") {
+    return status === 429 || status >= 500;
+  }
+  return typeof code === "string" && TRANSIENT_ERROR_CODES.has(code);
+}
+
+function defaultConcurrency(): number {
+  const value = Number(Bun.env.RAG_EMBEDDING_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+function logProgress({ done, total, cached }: EmbeddingProgress): void {
+  console.log(`Embeddings: ${done}/${total}${cached > 0 ? ` (${cached} do cache)` : ""}`);
+}
@@ -0,0 +1,77 @@
+/**
+ * Métricas da avaliação offline
+ */
+
+/**
+ * Fração dos chunks esperados entre os k primeiros recuperados
+ */
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  if (expected.length === 0) {
+    return 1;
+  }
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter((id) => top.has(id)).length / expected.length;
+}
+
+/**
+ * 1 / posição do primeiro chunk esperado (0 se nenhum foi recuperado)
+ */
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const position = retrieved.findIndex((id) => expected.includes(id));
+  return position === -1 ? 0 : 1 / (position + 1);
+}
+
+/**
+ * Intervalos iguais (null = sem filtro temporal)
+ */
+export function sameDateRange(
+  actual: { start: string; end: string } | null,
+  expected: { start: string; end: string } | null
+): boolean {
+  if (!actual || !expected) {
+    return actual === expected;
+  }
+  return actual.start === expected.start && actual.end === expected.end;
+}
+
+/**
+ * Fatos de referência presentes na resposta
+ * Sem diferenciar maiúsculas/acentos; valores em R$ são comparados pelo
+ * número ("R$ 1.234,56" = "R$ 1234.56")
+ */
+export function factCoverage(response: string, facts: string[]): { fact: string; found: boolean }[] {
+  const normalizedResponse = normalizeFact(response);
+  return facts.map((fact) => ({ fact, found: normalizedResponse.includes(normalizeFact(fact)) }));
+}
+
+/**
+ * Média (1 quando não há valores, para não penalizar casos sem expectativa)
+ */
+export function mean(values: number[]): number {
+  return values.length === 0 ? 1 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Arredonda para o relatório (diffs estáveis entre execuções)
+ */
+export function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function normalizeFact(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/r\$\s*(\d(?:[\d.,]*\d)?)/g, (_, value: string) => `r$${canonicalAmount(value)}`)
+    .replace(/\s+/g, " ");
+}
+
+function canonicalAmount(value: string): string {
+  const normalized = /,\d{1,2}$/.test(value)
+    ? value.replace(/\./g, "").replace(",", ".")
+    : /\.\d{1,2}$/.test(value)
+      ? value.replace(/,/g, "")
+      : value.replace(/[.,]/g, "");
+  return Number(normalized).toFixed(2);
+}
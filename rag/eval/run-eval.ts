@@ -0,0 +1,247 @@
+/**
+ * Avaliação offline do pipeline RAG
+ *
+ * Roda o dataset dourado (golden-dataset.json) contra o corpus de teste
+ * (seed-test-data.ts) com uma data atual fixa e mede:
+ * - acurácia do tipo de pergunta
+ * - acerto exato do período (dateStart/dateEnd)
+ * - recall@k e MRR dos chunks recuperados
+ * - cobertura dos fatos de referência na resposta
+ *
+ * Por padrão tudo roda offline: embeddings por hashing, intenção pelas
+ * regras do fallback e resposta extrativa (copia os contextos). O corpus é
+ * gravado num database temporário, sem tocar em ./data/lancedb. O
+ * relatório é um JSON estável (sem horários, números arredondados), para
+ * comparar execuções com diff.
+ *
+ * Uso:
+ *   bun run rag/eval/run-eval.ts [--out out/eval-report.json] [--dataset rag/eval/golden-dataset.json]
+ *                                [--intent mock|ollama|gemini] [--answer mock|ollama|gemini]
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { ragChat, TOP_K } from "../rag-pipeline.ts";
+import {
+  createChatModel,
+  createExtractiveAnswerModel,
+  createRuleBasedIntentModel,
+  type ChatModel,
+  type ChatProvider,
+} from "../chat-model.ts";
+import { createHashingEmbedder, setEmbeddingProvider } from "../embeddings.ts";
+import { closeLanceDB, initLanceDB, type UserScope } from "../vector-db.ts";
+import { seedTestData } from "../seed-test-data.ts";
+import { isValidISO8601Date } from "../utils/temporal.ts";
+import { factCoverage, mean, reciprocalRank, recallAtK, round, sameDateRange } from "./metrics.ts";
+
+type DateRange = { start: string; end: string };
+
+/**
+ * Caso do dataset dourado
+ */
+export interface EvalCase {
+  id: string;
+  query: string;
+  expected: {
+    type: string;
+    dateRange: DateRange | null;
+    chunkIds: string[]; // Chunks relevantes (ordem não importa)
+    facts: string[]; // Trechos que a resposta deve conter (ex: "R$ 180,50")
+  };
+}
+
+export interface EvalDataset {
+  currentDate: string; // YYYY-MM-DD: data "de hoje" do corpus e das perguntas
+  cases: EvalCase[];
+}
+
+/**
+ * Resultado de um caso
+ */
+export interface EvalCaseResult {
+  id: string;
+  query: string;
+  intent: { expected: string; actual: string; correct: boolean };
+  dateRange: { expected: DateRange | null; actual: DateRange | null; exactMatch: boolean };
+  retrieval: { expected: string[]; retrieved: string[]; recall: number; reciprocalRank: number };
+  answer: { response: string; facts: { fact: string; found: boolean }[]; coverage: number };
+}
+
+/**
+ * Relatório da avaliação
+ */
+export interface EvalReport {
+  currentDate: string;
+  providers: { intent: string; answer: string; embedding: string };
+  k: number;
+  summary: {
+    cases: number;
+    intentAccuracy: number;
+    dateRangeExactMatch: number;
+    recallAtK: number; // Média dos casos com chunks esperados
+    mrr: number;
+    factCoverage: number; // Média dos casos com fatos esperados
+  };
+  cases: EvalCaseResult[];
+}
+
+/**
+ * Modelos da avaliação ("mock" = offline)
+ */
+export interface EvalModels {
+  intent: ChatModel;
+  answer: ChatModel;
+}
+
+const DEFAULT_DATASET = join(import.meta.dir, "golden-dataset.json");
+const EVAL_USER: UserScope = { userId: "eval" };
+const DEFAULT_OUT = "out/eval-report.json";
+
+/**
+ * Roda o dataset e monta o relatório
+ * O corpus de teste é gravado num database temporário, removido no final
+ */
+export async function runEvaluation(dataset: EvalDataset, models: EvalModels): Promise<EvalReport> {
+  if (!isValidISO8601Date(dataset.currentDate)) {
+    throw new Error(`currentDate inválida no dataset: ${dataset.currentDate}`);
+  }
+  const [year, month, day] = dataset.currentDate.split("-").map(Number) as [number, number, number];
+  const currentDate = new Date(year, month - 1, day);
+
+  const embedder = createHashingEmbedder();
+  setEmbeddingProvider(embedder);
+
+  const dbPath = await mkdtemp(join(tmpdir(), "rag-eval-"));
+  try {
+    await initLanceDB(dbPath);
+    await seedTestData(EVAL_USER, currentDate);
+
+    const cases: EvalCaseResult[] = [];
+    for (const evalCase of dataset.cases) {
+      cases.push(await evaluateCase(evalCase, currentDate, models));
+    }
+
+    return {
+      currentDate: dataset.currentDate,
+      providers: {
+        intent: `${models.intent.provider}/${models.intent.model}`,
+        answer: `${models.answer.provider}/${models.answer.model}`,
+        embedding: embedder.model,
+      },
+      k: TOP_K,
+      summary: summarize(cases),
+      cases,
+    };
+  } finally {
+    await closeLanceDB();
+    await rm(dbPath, { recursive: true, force: true });
+  }
+}
+
+async function evaluateCase(evalCase: EvalCase, currentDate: Date, models: EvalModels): Promise<EvalCaseResult> {
+  const { expected } = evalCase;
+  const result = await ragChat(EVAL_USER, evalCase.query, currentDate, { models });
+  const { intent } = result.metadata;
+
+  const actualRange = intent.dateStart && intent.dateEnd ? { start: intent.dateStart, end: intent.dateEnd } : null;
+  const retrieved = result.chunksUsed.map((chunk) => chunk.id);
+  const facts = factCoverage(result.response, expected.facts);
+
+  return {
+    id: evalCase.id,
+    query: evalCase.query,
+    intent: { expected: expected.type, actual: intent.type, correct: intent.type === expected.type },
+    dateRange: {
+      expected: expected.dateRange,
+      actual: actualRange,
+      exactMatch: sameDateRange(actualRange, expected.dateRange),
+    },
+    retrieval: {
+      expected: expected.chunkIds,
+      retrieved,
+      recall: round(recallAtK(retrieved, expected.chunkIds, TOP_K)),
+      reciprocalRank: round(reciprocalRank(retrieved, expected.chunkIds)),
+    },
+    answer: {
+      response: result.response,
+      facts,
+      coverage: round(facts.length === 0 ? 1 : facts.filter((fact) => fact.found).length / facts.length),
+    },
+  };
+}
+
+function summarize(cases: EvalCaseResult[]): EvalReport["summary"] {
+  const withChunks = cases.filter((result) => result.retrieval.expected.length > 0);
+  const withFacts = cases.filter((result) => result.answer.facts.length > 0);
+  return {
+    cases: cases.length,
+    intentAccuracy: round(mean(cases.map((result) => (result.intent.correct ? 1 : 0)))),
+    dateRangeExactMatch: round(mean(cases.map((result) => (result.dateRange.exactMatch ? 1 : 0)))),
+    recallAtK: round(mean(withChunks.map((result) => result.retrieval.recall))),
+    mrr: round(mean(withChunks.map((result) => result.retrieval.reciprocalRank))),
+    factCoverage: round(mean(withFacts.map((result) => result.answer.coverage))),
+  };
+}
+
+function createEvalModel(provider: string, offline: () => ChatModel): ChatModel {
+  if (provider === "mock") {
+    return offline();
+  }
+  if (provider !== "ollama" && provider !== "gemini") {
+    throw new Error(`Provedor inválido: ${provider} (use mock, ollama ou gemini)`);
+  }
+  return createChatModel(provider as ChatProvider);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      dataset: { type: "string", default: DEFAULT_DATASET },
+      out: { type: "string", default: DEFAULT_OUT },
+      intent: { type: "string", default: "mock" },
+      answer: { type: "string", default: "mock" },
+    },
+  });
+
+  const dataset = (await Bun.file(values.dataset).json()) as EvalDataset;
+  const [year, month, day] = dataset.currentDate.split("-").map(Number) as [number, number, number];
+  const models: EvalModels = {
+    intent: createEvalModel(values.intent, () => createRuleBasedIntentModel(new Date(year, month - 1, day))),
+    answer: createEvalModel(values.answer, createExtractiveAnswerModel),
+  };
+
+  const report = await runEvaluation(dataset, models);
+  await Bun.write(values.out, `${JSON.stringify(report, null, 2)}\n`);
+
+  console.log("\n=== Avaliação ===");
+  console.log(`Casos: ${report.summary.cases} (data atual ${report.currentDate}, k=${report.k})`);
+  console.log(`Tipo de pergunta:  ${report.summary.intentAccuracy}`);
+  console.log(`Período exato:     ${report.summary.dateRangeExactMatch}`);
+  console.log(`Recall@${report.k}:          ${report.summary.recallAtK}`);
+  console.log(`MRR:               ${report.summary.mrr}`);
+  console.log(`Cobertura de fatos: ${report.summary.factCoverage}`);
+  for (const result of report.cases) {
+    const misses = [
+      result.intent.correct ? null : `tipo ${result.intent.actual}`,
+      result.dateRange.exactMatch ? null : "período",
+      result.retrieval.recall < 1 ? `recall ${result.retrieval.recall}` : null,
+      result.answer.coverage < 1 ? `fatos ${result.answer.coverage}` : null,
+    ].filter(Boolean);
+    if (misses.length > 0) {
+      console.log(`  ✗ ${result.id}: ${misses.join(", ")}`);
+    }
+  }
+  console.log(`\nRelatório: ${values.out}`);
+}
+
+// Se executado diretamente, roda a avaliação
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("❌ Erro na avaliação:", error);
+    process.exit(1);
+  });
+}
@@ -7,16 +7,18 @@
 
 import { chat, chatWithMetadata } from "./rag-chat.ts";
 import { seedTestData } from "./seed-test-data.ts";
+import { localUserScope } from "./vector-db.ts";
 
 async function main() {
   console.log("=== Exemplo de Uso do Sistema RAG ===\n");
+  const user = localUserScope();
 
-  // Primeiro, popula o database com dados de teste (se ainda não foi feito)
+  // Primeiro, popula o database com dados de teste (o seed não duplica chunks)
   try {
-    console.log("Verificando se o database precisa ser populado...");
-    await seedTestData();
+    console.log("Populando o database com dados de teste...");
+    await seedTestData(user);
   } catch (error) {
-    console.log("Database já populado ou erro ao popular (continuando...)\n");
+    console.log("Erro ao popular o database (continuando...)\n");
   }
 
   // Exemplos de queries
@@ -35,11 +37,11 @@ async function main() {
 
     try {
       // Versão simples (apenas resposta)
-      const response = await chat(query);
+      const response = await chat(user, query);
       console.log(`\n💬 Resposta: ${response}`);
 
       // Versão com metadados (descomente para ver detalhes)
-      // const result = await chatWithMetadata(query);
+      // const result = await chatWithMetadata(user, query);
       // console.log(`\n📊 Metadados:`);
       // console.log(`   - Tipo: ${result.metadata.queryType}`);
       // console.log(`   - Chunks encontrados: ${result.metadata.chunksFound}`);
@@ -0,0 +1,185 @@
+/**
+ * Filtros tipados para o LanceDB
+ *
+ * Em vez de concatenar SQL com valores vindos do modelo de chat, os filtros
+ * são montados como uma árvore (igualdade, intervalo, IN, AND/OR) e só viram
+ * SQL em compileFilter, que valida campos, enums e datas e escapa literais.
+ */
+
+import { isValidISO8601Date } from "./utils/temporal.ts";
+import { isSpendingCategory, SPENDING_CATEGORIES } from "./categories.ts";
+
+export const CHUNK_TYPES = ["transacional", "insight", "educacao"] as const;
+
+export type ChunkType = (typeof CHUNK_TYPES)[number];
+
+/**
+ * Colunas que podem ser filtradas
+ */
+export type FilterField = "id" | "type" | "date" | "source" | "amount" | "category";
+
+export type FilterValue = string | number;
+
+/**
+ * Nó da árvore de filtros
+ */
+export type ChunkFilter =
+  | { op: "eq"; field: FilterField; value: FilterValue }
+  | { op: "in"; field: FilterField; values: FilterValue[] }
+  | { op: "range"; field: "date" | "amount"; gte?: FilterValue; lte?: FilterValue }
+  | { op: "and"; filters: ChunkFilter[] }
+  | { op: "or"; filters: ChunkFilter[] };
+
+/**
+ * Verifica se um valor é um tipo de chunk conhecido
+ */
+export function isChunkType(value: unknown): value is ChunkType {
+  return typeof value === "string" && (CHUNK_TYPES as readonly string[]).includes(value);
+}
+
+export function eq(field: FilterField, value: FilterValue): ChunkFilter {
+  return { op: "eq", field, value };
+}
+
+export function inList(field: FilterField, values: FilterValue[]): ChunkFilter {
+  return { op: "in", field, values };
+}
+
+/**
+ * Intervalo fechado; limites ausentes ficam em aberto
+ */
+export function range(
+  field: "date" | "amount",
+  bounds: { gte?: FilterValue; lte?: FilterValue }
+): ChunkFilter {
+  return { op: "range", field, ...bounds };
+}
+
+/**
+ * AND dos filtros informados (undefined é ignorado, para filtros opcionais)
+ */
+export function and(...filters: (ChunkFilter | undefined)[]): ChunkFilter {
+  return { op: "and", filters: filters.filter((filter) => filter !== undefined) };
+}
+
+export function or(...filters: (ChunkFilter | undefined)[]): ChunkFilter {
+  return { op: "or", filters: filters.filter((filter) => filter !== undefined) };
+}
+
+/**
+ * Converte o filtro em cláusula WHERE do LanceDB
+ * Lança erro para campos desconhecidos, enums inválidos, datas inválidas
+ * ou números não finitos
+ * Ex: and(eq("type", "transacional"), range("date", { gte: "2024-03-01" }))
+ * → "(type = 'transacional' AND date >= date '2024-03-01')"
+ */
+export function compileFilter(filter: ChunkFilter): string {
+  switch (filter.op) {
+    case "eq":
+      return `${column(filter.field)} = ${literal(filter.field, filter.value)}`;
+    case "in":
+      if (filter.values.length === 0) {
+        return "false";
+      }
+      return `${column(filter.field)} IN (${filter.values.map((value) => literal(filter.field, value)).join(", ")})`;
+    case "range": {
+      const bounds: string[] = [];
+      if (filter.gte !== undefined) {
+        bounds.push(`${column(filter.field)} >= ${literal(filter.field, filter.gte)}`);
+      }
+      if (filter.lte !== undefined) {
+        bounds.push(`${column(filter.field)} <= ${literal(filter.field, filter.lte)}`);
+      }
+      return bounds.length > 0 ? `(${bounds.join(" AND ")})` : "true";
+    }
+    case "and":
+    case "or": {
+      if (filter.filters.length === 0) {
+        return filter.op === "and" ? "true" : "false";
+      }
+      const separator = filter.op === "and" ? " AND " : " OR ";
+      return `(${filter.filters.map(compileFilter).join(separator)})`;
+    }
+    default:
+      throw new Error(`Operador de filtro inválido: ${(filter as { op: unknown }).op}`);
+  }
+}
+
+/**
+ * Avalia o filtro sobre uma linha já carregada em memória
+ * (mesma semântica de compileFilter; usado pelo índice de palavras-chave)
+ */
+export function matchesFilter(
+  filter: ChunkFilter,
+  row: Partial<Record<FilterField, FilterValue | undefined>>
+): boolean {
+  switch (filter.op) {
+    case "eq":
+      return row[filter.field] === filter.value;
+    case "in":
+      return filter.values.includes(row[filter.field] as FilterValue);
+    case "range": {
+      const value = row[filter.field];
+      if (value === undefined) {
+        return false;
+      }
+      return (filter.gte === undefined || value >= filter.gte) && (filter.lte === undefined || value <= filter.lte);
+    }
+    case "and":
+      return filter.filters.every((child) => matchesFilter(child, row));
+    case "or":
+      return filter.filters.some((child) => matchesFilter(child, row));
+  }
+}
+
+const FIELDS: readonly FilterField[] = ["id", "type", "date", "source", "amount", "category"];
+
+/**
+ * Nome da coluna (apenas campos conhecidos)
+ */
+function column(field: FilterField): string {
+  if (!FIELDS.includes(field)) {
+    throw new Error(`Campo de filtro inválido: ${String(field)}`);
+  }
+  return field;
+}
+
+/**
+ * Literal SQL validado conforme o campo
+ */
+function literal(field: FilterField, value: FilterValue): string {
+  switch (field) {
+    case "amount":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`Valor inválido para amount: ${String(value)}`);
+      }
+      return String(value);
+    case "date":
+      if (typeof value !== "string" || !isValidISO8601Date(value)) {
+        throw new Error(`Data inválida no filtro: ${String(value)}. Deve estar no formato ISO 8601 (YYYY-MM-DD)`);
+      }
+      return `date '${value}'`;
+    case "type":
+      if (!isChunkType(value)) {
+        throw new Error(`Tipo inválido no filtro: ${String(value)}. Deve ser um de: ${CHUNK_TYPES.join(", ")}`);
+      }
+      return quote(value);
+    case "category":
+      if (!isSpendingCategory(value)) {
+        throw new Error(`Categoria inválida no filtro: ${String(value)}. Deve ser uma de: ${SPENDING_CATEGORIES.join(", ")}`);
+      }
+      return quote(value);
+    default:
+      if (typeof value !== "string") {
+        throw new Error(`Valor inválido para ${field}: ${String(value)}`);
+      }
+      return quote(value);
+  }
+}
+
+/**
+ * String SQL com aspas simples escapadas
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
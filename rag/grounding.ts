@@ -0,0 +1,268 @@
+/**
+ * Verificação numérica da resposta (grounding)
+ *
+ * O modelo às vezes inventa ou erra valores em R$ e datas. Depois da
+ * geração, cada valor monetário e cada data da resposta é conferido contra
+ * os chunks usados e os totais calculados deterministicamente (ver
+ * aggregation.ts). O que não tem origem é:
+ * - flag: apenas reportado
+ * - retry: reportado e, no ragChat, a resposta é regerada com um prompt de correção
+ * - replace: substituído por "(valor não confirmado)" / "(data não confirmada)"
+ *
+ * O relatório vai para RAGResult.metadata.grounding.
+ */
+
+import type { ChatMessage } from "./chat-model.ts";
+import type { TransactionAggregate } from "./aggregation.ts";
+import type { SearchResult } from "./vector-db.ts";
+import { MONTHS } from "./utils/temporal.ts";
+
+export type GroundingMode = "flag" | "retry" | "replace";
+
+/**
+ * Valor ou data encontrado na resposta
+ */
+export interface GroundedFigure {
+  kind: "amount" | "date";
+  text: string; // Como aparece na resposta (ex: "R$ 1.234,56", "5 de março")
+  value: number | string; // Valor em reais ou data ISO (MM-DD quando sem ano)
+  grounded: boolean;
+  reference?: string; // Origem: id do chunk ou total (ex: "tx-002", "soma")
+}
+
+/**
+ * Relatório de grounding
+ */
+export interface GroundingReport {
+  mode: GroundingMode;
+  figures: GroundedFigure[];
+  ungrounded: number; // Valores/datas sem origem encontrados
+  retried: boolean; // Resposta regerada com prompt de correção
+  replaced: number; // Valores/datas substituídos no texto
+}
+
+/**
+ * O que conta como origem de um valor ou data
+ */
+export interface GroundingSources {
+  chunks: SearchResult[];
+  aggregation?: TransactionAggregate;
+  dates?: (string | undefined)[]; // Datas ISO conhecidas (ex: período da pergunta, data atual)
+}
+
+export const DEFAULT_GROUNDING_MODE: GroundingMode = "retry";
+
+const UNCONFIRMED_AMOUNT = "(valor não confirmado)";
+const UNCONFIRMED_DATE = "(data não confirmada)";
+
+/**
+ * "R$ 1.234,56", "R$ 180.50", "R$ 1,2 mil", "450 reais"
+ */
+const AMOUNT_PATTERN = /R\$\s*(\d(?:[\d.,]*\d)?)(\s*mil\b)?|\b(\d(?:[\d.,]*\d)?)(\s*mil)?\s+reais\b/gi;
+
+const MONTH_NAMES = Object.keys(MONTHS).map((month) => month.replace("marco", "mar[cç]o")).join("|");
+
+/**
+ * "2024-03-05", "05/03/2024", "05/03", "5 de março", "5 de março de 2024"
+ */
+const DATE_PATTERN = new RegExp(
+  `\\b(\\d{4})-(\\d{2})-(\\d{2})\\b|\\b(\\d{1,2})\\/(\\d{1,2})\\/(\\d{2,4})\\b|\\b(\\d{2})\\/(\\d{2})\\b|\\b(\\d{1,2}) de (${MONTH_NAMES})(?: de (\\d{4}))?\\b`,
+  "gi"
+);
+
+/**
+ * Confere valores e datas da resposta; no modo "replace", substitui os que
+ * não têm origem
+ */
+export function verifyGrounding(
+  text: string,
+  sources: GroundingSources,
+  options: { mode?: GroundingMode; retried?: boolean } = {}
+): { text: string; report: GroundingReport } {
+  const { mode = DEFAULT_GROUNDING_MODE, retried = false } = options;
+  const amounts = referenceAmounts(sources);
+  const dates = referenceDates(sources);
+  const figures: GroundedFigure[] = [];
+  const replace = mode === "replace";
+
+  const withAmounts = text.replace(AMOUNT_PATTERN, (match, rValue, rThousands, value, thousands) => {
+    const figure = checkAmount(match.trim(), rValue ?? value, Boolean(rThousands ?? thousands), amounts);
+    figures.push(figure);
+    return replace && !figure.grounded ? UNCONFIRMED_AMOUNT : match;
+  });
+
+  const result = withAmounts.replace(DATE_PATTERN, (match, ...groups: (string | undefined)[]) => {
+    const figure = checkDate(match, groups, dates);
+    if (!figure) {
+      return match;
+    }
+    figures.push(figure);
+    return replace && !figure.grounded ? UNCONFIRMED_DATE : match;
+  });
+
+  return { text: result, report: createGroundingReport(figures, mode, retried) };
+}
+
+/**
+ * Monta o relatório a partir dos valores/datas conferidos
+ * (no streaming, os trechos são conferidos à medida que são emitidos)
+ */
+export function createGroundingReport(
+  figures: GroundedFigure[],
+  mode: GroundingMode,
+  retried: boolean = false
+): GroundingReport {
+  const ungrounded = figures.filter((figure) => !figure.grounded).length;
+  return {
+    mode,
+    figures,
+    ungrounded,
+    retried,
+    replaced: mode === "replace" ? ungrounded : 0,
+  };
+}
+
+/**
+ * Mensagens para regerar a resposta sem os valores/datas sem origem
+ */
+export function buildCorrectionMessages(
+  messages: ChatMessage[],
+  response: string,
+  figures: GroundedFigure[]
+): ChatMessage[] {
+  const ungrounded = figures.filter((figure) => !figure.grounded).map((figure) => figure.text);
+  return [
+    ...messages,
+    { role: "assistant", content: response },
+    {
+      role: "user",
+      content: `Estes valores/datas da sua resposta não aparecem nos contextos nem nos totais calculados: ${ungrounded.join(", ")}. Reescreva a resposta usando apenas valores e datas dos contextos e dos totais. Se um valor não estiver disponível, não o cite.`,
+    },
+  ];
+}
+
+function checkAmount(
+  text: string,
+  raw: string,
+  thousands: boolean,
+  references: Map<number, string>
+): GroundedFigure {
+  const { value, unit } = parseAmount(raw, thousands);
+  // Tolera o arredondamento da forma escrita (ex: "R$ 1,2 mil" para 1.234,56)
+  for (const [reference, label] of references) {
+    if (Math.abs(reference - value) <= unit + 1e-9) {
+      return { kind: "amount", text, value, grounded: true, reference: label };
+    }
+  }
+  return { kind: "amount", text, value, grounded: false };
+}
+
+/**
+ * Valor em reais e a menor unidade representada pela forma escrita
+ */
+function parseAmount(raw: string, thousands: boolean): { value: number; unit: number } {
+  let normalized: string;
+  let decimals = 0;
+  const comma = raw.match(/,(\d{1,2})$/);
+  const dot = raw.match(/\.(\d{1,2})$/);
+  if (comma) {
+    normalized = raw.replace(/\./g, "").replace(",", ".");
+    decimals = comma[1]!.length;
+  } else if (dot) {
+    normalized = raw.replace(/,/g, "");
+    decimals = dot[1]!.length;
+  } else {
+    normalized = raw.replace(/[.,]/g, "");
+  }
+
+  const multiplier = thousands ? 1000 : 1;
+  return {
+    value: Number(normalized) * multiplier,
+    unit: 10 ** -decimals * multiplier,
+  };
+}
+
+function checkDate(
+  text: string,
+  groups: (string | undefined)[],
+  references: Set<string>
+): GroundedFigure | null {
+  const [isoYear, isoMonth, isoDay, day, month, year, shortDay, shortMonth, writtenDay, monthName, writtenYear] = groups;
+
+  let value: string | null = null;
+  if (isoYear) {
+    value = `${isoYear}-${isoMonth}-${isoDay}`;
+  } else if (day) {
+    const fullYear = year && year.length === 2 ? `20${year}` : year;
+    value = toDateKey(Number(day), Number(month), fullYear);
+  } else if (shortDay) {
+    value = toDateKey(Number(shortDay), Number(shortMonth));
+  } else if (writtenDay && monthName) {
+    const monthNumber = MONTHS[monthName.toLowerCase().replace("ç", "c")];
+    value = monthNumber ? toDateKey(Number(writtenDay), monthNumber, writtenYear) : null;
+  }
+  if (!value) {
+    return null; // Não é uma data (ex: "45/90")
+  }
+
+  // Sem ano, compara só mês e dia
+  const grounded = value.length === 5
+    ? [...references].some((reference) => reference.endsWith(`-${value}`))
+    : references.has(value);
+  return { kind: "date", text, value, grounded };
+}
+
+function toDateKey(day: number, month: number, year?: string): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  const monthDay = `${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  return year ? `${year}-${monthDay}` : monthDay;
+}
+
+/**
+ * Valores com origem: cada chunk (campo amount e valores citados no texto,
+ * ex: insights), a soma dos chunks e os totais calculados
+ */
+function referenceAmounts(sources: GroundingSources): Map<number, string> {
+  const references = new Map<number, string>();
+  let chunkSum = 0;
+  for (const chunk of sources.chunks) {
+    for (const match of chunk.text.matchAll(AMOUNT_PATTERN)) {
+      const raw = match[1] ?? match[3];
+      if (raw) {
+        references.set(parseAmount(raw, Boolean(match[2] ?? match[4])).value, chunk.id);
+      }
+    }
+    if (chunk.amount !== undefined) {
+      references.set(Math.abs(chunk.amount), chunk.id);
+      chunkSum += Math.abs(chunk.amount);
+    }
+  }
+  if (sources.chunks.length > 1) {
+    references.set(chunkSum, "soma dos contextos");
+  }
+
+  const { aggregation } = sources;
+  if (aggregation && aggregation.count > 0) {
+    references.set(Math.abs(aggregation.sum), "soma");
+    references.set(Math.abs(aggregation.average), "média");
+    if (aggregation.largest?.amount !== undefined) {
+      references.set(Math.abs(aggregation.largest.amount), aggregation.largest.id);
+    }
+  }
+  if (aggregation && aggregation.income.count > 0) {
+    references.set(aggregation.income.sum, "entradas");
+  }
+  return references;
+}
+
+function referenceDates(sources: GroundingSources): Set<string> {
+  return new Set(
+    [
+      ...sources.chunks.map((chunk) => chunk.date),
+      sources.aggregation?.largest?.date,
+      ...(sources.dates ?? []),
+    ].filter((date): date is string => Boolean(date))
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * Guardrails de tema e segurança
+ *
+ * O caminho via Gemini conta com safetySettings do provedor; o Llama local
+ * não. Aqui as regras são aplicadas no próprio pipeline, em duas etapas:
+ * - entrada (antes da busca): perguntas ilícitas (lavagem de dinheiro,
+ *   fraude, sonegação) ou fora do tema de finanças recebem uma recusa
+ *   padronizada, sem chamar o modelo
+ * - saída (após a geração): respostas com recomendação de investimento
+ *   específico ("compre Bitcoin agora") são cortadas na frase problemática
+ *   e completadas com a recusa
+ *
+ * As regras são locais e determinísticas; toda decisão (inclusive "allow")
+ * vai para os metadados do resultado.
+ */
+
+import { splitSentences } from "./length-control.ts";
+
+export type GuardrailCategory = "off_topic" | "illicit" | "investment_advice";
+
+/**
+ * Decisão de um guardrail
+ * - allow: segue normalmente
+ * - block: pergunta recusada antes da busca
+ * - replace: resposta cortada e completada com a recusa
+ */
+export interface GuardrailDecision {
+  stage: "input" | "output";
+  action: "allow" | "block" | "replace";
+  category?: GuardrailCategory;
+  matched?: string; // Trecho que disparou a regra
+}
+
+/**
+ * Resultado da verificação da resposta
+ */
+export interface OutputScreening {
+  text: string; // Resposta final (trecho seguro + recusa, se cortada)
+  safe: string; // Frases anteriores à primeira violação
+  decision: GuardrailDecision;
+}
+
+/**
+ * Recusas padronizadas
+ */
+export const REFUSALS: Record<GuardrailCategory, string> = {
+  off_topic: "Desculpe, só posso ajudar com finanças pessoais. 💰 Quer falar sobre seus gastos, metas ou investimentos?",
+  illicit: "Desculpe, não posso ajudar com isso. 🚫 Se quiser, explico como manter suas finanças em dia dentro da lei.",
+  investment_advice: "Não posso recomendar a compra ou venda de investimentos específicos. 📚 Posso explicar como funcionam e como avaliar se combinam com seu perfil.",
+};
+
+/**
+ * Atividades ilícitas (texto normalizado: minúsculas, sem acentos)
+ */
+const ILLICIT_PATTERNS: RegExp[] = [
+  /\blava(r|gem|ndo)?\b.{0,20}\bdinheiro\b/,
+  /\bcaixa dois\b/,
+  /\bsonega(r|cao|ndo)?\b/,
+  /\bevasao (fiscal|de divisas)\b/,
+  /\b(esconder|ocultar|omitir|nao declarar)\b.{0,30}\b(receita federal|leao|imposto|renda|patrimonio)\b/,
+  /\b(fraud(e|ar|ando)|falsifica(r|cao)|nota fria|boleto falso)\b/,
+  /\b(clonar|clonagem de) cart(ao|oes)\b/,
+  /\b(aplicar|dar) (um )?golpe\b/,
+];
+
+/**
+ * Contexto de proteção ou conceitual logo antes do ato ilícito: a pergunta é
+ * sobre se defender ou entender, não sobre cometer
+ * Ex: "como evitar fraude no cartão?", "caí num golpe do boleto falso", "o que é sonegação?"
+ * Só vale colado ao ato (no máximo artigos e preposições entre eles): em
+ * "como lavar dinheiro e evitar que a Receita descubra?" o "evitar" não protege nada.
+ */
+const PROTECTIVE_PREFIX = /\b(evitar|proteger|protejo|prevenir|identificar|reconhecer|denunciar|vitima|cai|sofri|o que e|o que significa|e crime)\s+(?:(?:de|do|da|dos|das|um|uma|num|numa|no|na|em|o|a|os|as|contra|golpes?|tentativas?)\s+){0,3}$/;
+
+/**
+ * Pergunta conceitual com o ato antes: "sonegar imposto é crime?"
+ */
+const CONCEPTUAL_SUFFIX = /^(?:\s+\w+){0,2}\s+(e crime|e ilegal|da cadeia|da prisao)\b/;
+
+/**
+ * Assuntos e perguntas de conhecimento geral claramente fora do tema (só
+ * valem sem vocabulário financeiro)
+ * Ex: "qual a capital da França?", "quem descobriu o Brasil?", "escreva um poema"
+ */
+const OFF_TOPIC_PATTERN = new RegExp(
+  [
+    "receita de (bolo|comida|pao|torta)",
+    "futebol|campeonato|copa do mundo|olimpiadas?|filme|novela|serie de tv|musica|poema|poesia|piada",
+    "horoscopo|signo|previsao do tempo|clima amanha|namorad[ao]|codigo em|programar em|dever de casa",
+    // Sem consumir o complemento: "capital da poupança" ainda tem vocabulário financeiro
+    "capital d[aeo]s?(?= (?!giro\\b)\\w)",
+    "(presidente|rei|rainha|populacao|area|altura|distancia|idioma|lingua oficial) d[aeo]s?(?= \\w)",
+    "quem (foi|e|era|descobriu|inventou|escreveu|pintou|compos|ganhou|venceu)",
+    "(quando|onde|em que ano) (nasceu|morreu|foi fundad[ao]|aconteceu|comecou|terminou)",
+    "(escreva|escreve|crie|cria|faca|faz|conte|conta) (um|uma) (poema|poesia|musica|historia|redacao|conto|piada)",
+    "traduz\\w*|como se diz",
+  ].map((alternative) => `\\b(${alternative})\\b`).join("|")
+);
+
+const FINANCE_PATTERN = /\b(dinheiro|financ\w*|gast\w*|despesa\w*|receita\w*|renda|salario|pag(ar|o|ou|uei|ei|amentos?)|receb\w*|cart(ao|oes)|contas|conta (corrente|bancaria|de \w+)|fatura\w*|boleto\w*|pix|banco\w*|invest\w*|reserva|poupanca|orcamento\w*|divida\w*|emprestimo\w*|juros?|imposto\w*|credito|debito|economi\w*|metas?|saldo|compra\w*|custo\w*|preco\w*|valor\w*|r\$)/;
+
+/**
+ * Recomendações de investimento específico na resposta (texto normalizado)
+ * Ex: "compre Bitcoin agora", "recomendo investir em ações da Petrobras"
+ */
+const INVESTMENT_ADVICE_PATTERNS: RegExp[] = [
+  /\b(compre|comprem|venda|vendam|invista|invistam|aplique|apliquem|aposte|apostem)\b.{0,30}\b(bitcoin|btc|ethereum|eth|cripto\w*|acoes d[aeo]|fii\w*|dolar)\b/,
+  // "você deveria comprar ações da Petrobras", "vale a pena vender dólar hoje"
+  /\b(deveria|deveriam|devia|deve|devem|precisa|tem que|vale a pena|e hora de)\s+(comprar|vender|investir|aplicar|apostar)\b.{0,30}\b(bitcoin|btc|ethereum|eth|cripto\w*|acoes? d[aeo]s? \w+|fii\w*|dolar)\b/,
+  /\b(recomendo|sugiro|indico) (que voce )?(compr|vend|inv[ei]st|aplic|apliqu)\w*/,
+  /\b(agora|hoje) e (a )?hora de (comprar|vender)\b/,
+];
+
+/**
+ * Ticker da B3 (ex: PETR4, MXRF11) junto de um verbo de compra/venda
+ */
+const TICKER_ADVICE_PATTERN = /\b([Cc]ompr|[Vv]end|[Ii]nvist)(e|em|a|am|ar)\b.{0,30}\b[A-Z]{4}\d{1,2}\b/;
+
+/**
+ * Guardrail de entrada: decide se a pergunta segue para a busca
+ */
+export function checkInput(query: string): GuardrailDecision {
+  const normalized = normalize(query);
+
+  const illicit = findIllicit(normalized);
+  if (illicit) {
+    return { stage: "input", action: "block", category: "illicit", matched: illicit };
+  }
+
+  const offTopic = normalized.match(OFF_TOPIC_PATTERN);
+  if (offTopic && !FINANCE_PATTERN.test(normalized.replace(offTopic[0], ""))) {
+    return { stage: "input", action: "block", category: "off_topic", matched: offTopic[0] };
+  }
+
+  return { stage: "input", action: "allow" };
+}
+
+/**
+ * Guardrail de saída: corta a resposta na primeira frase com recomendação
+ * de investimento específico e acrescenta a recusa
+ */
+export function screenOutput(response: string): OutputScreening {
+  let safe = "";
+  for (const sentence of splitSentences(response)) {
+    const matched = findInvestmentAdvice(sentence);
+    if (matched) {
+      const refusal = REFUSALS.investment_advice;
+      const kept = safe.trim();
+      return {
+        text: kept ? `${kept} ${refusal}` : refusal,
+        safe: kept,
+        decision: { stage: "output", action: "replace", category: "investment_advice", matched },
+      };
+    }
+    safe += sentence;
+  }
+  return { text: response, safe: response, decision: { stage: "output", action: "allow" } };
+}
+
+function findInvestmentAdvice(sentence: string): string | null {
+  const ticker = sentence.match(TICKER_ADVICE_PATTERN);
+  if (ticker) {
+    return ticker[0];
+  }
+  const normalized = normalize(sentence);
+  for (const pattern of INVESTMENT_ADVICE_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * Primeiro ato ilícito da pergunta que não esteja em contexto de proteção
+ */
+function findIllicit(normalized: string): string | null {
+  for (const pattern of ILLICIT_PATTERNS) {
+    for (const match of normalized.matchAll(new RegExp(pattern.source, "g"))) {
+      const before = normalized.slice(0, match.index);
+      const after = normalized.slice(match.index + match[0].length);
+      if (!PROTECTIVE_PREFIX.test(before) && !CONCEPTUAL_SUFFIX.test(after)) {
+        return match[0];
+      }
+    }
+  }
+  return null;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
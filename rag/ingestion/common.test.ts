@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { parseAmount } from "./common.ts";
+
+describe("parseAmount", () => {
+  test.each([
+    ["-1.234,56", -1234.56],
+    ["1,234.56", 1234.56],
+    ["R$ 45,9", 45.9],
+    ["1.234", 1234],
+    ["-1.234", -1234],
+    ["1.234.567", 1234567],
+    ["R$ 2.000", 2000],
+    ["45.90", 45.9],
+    ["0.5", 0.5],
+    ["1,234", 1.234],
+    ["(45,90)", -45.9],
+    ["45,90-", -45.9],
+  ])("%p → %p", (raw, expected) => {
+    expect(parseAmount(raw)).toBe(expected);
+  });
+
+  test.each(["", "abc", "1.23.4", "12,34,56"])("%p não é um valor", (raw) => {
+    expect(parseAmount(raw)).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Utilitários compartilhados pelos importadores (OFX, CSV, documentos)
+ */
+
+import {
+  generateEmbeddingsBatch,
+  getEmbeddingProvider,
+  type EmbeddingBatchOptions,
+  type EmbeddingProvider,
+} from "../embeddings.ts";
+import { upsertChunks, type NewChunk, type UserScope } from "../vector-db.ts";
+
+/**
+ * Chunk ainda sem embedding (saída dos parsers)
+ * O dono é atribuído na gravação (ver UserScope)
+ */
+export type ChunkDraft = Omit<NewChunk, "embedding">;
+
+/**
+ * Gera embeddings para chunks de um importador (com cache, ver generateEmbeddingsBatch)
+ * @param drafts Chunks sem embedding
+ * @param provider Provedor de embeddings (padrão: provedor ativo)
+ * @param options Lotes, concorrência, novas tentativas e progresso
+ */
+export async function embedChunks(
+  drafts: ChunkDraft[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  options: EmbeddingBatchOptions = {}
+): Promise<NewChunk[]> {
+  const embeddings = await generateEmbeddingsBatch(
+    drafts.map((draft) => draft.text),
+    provider,
+    options
+  );
+
+  return drafts.map((draft, index) => {
+    const embedding = embeddings[index];
+    if (!embedding) {
+      throw new Error(`Embedding ausente para o chunk ${draft.id}`);
+    }
+    return { ...draft, embedding };
+  });
+}
+
+/**
+ * Gera embeddings e grava os chunks do usuário no LanceDB (upsert pelo id)
+ * Importar o mesmo arquivo de novo não duplica chunks
+ * @param scope Dono dos chunks
+ * @returns Quantidade de chunks gravados (novos ou alterados)
+ */
+export async function embedAndInsert(
+  scope: UserScope,
+  drafts: ChunkDraft[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  if (drafts.length === 0) {
+    return 0;
+  }
+  const chunks = await embedChunks(drafts, provider);
+  const result = await upsertChunks(scope, chunks, { embeddingModel: provider.model });
+  return result.inserted + result.updated;
+}
+
+/**
+ * Formata um valor em reais (ex: 1234.5 → "R$ 1.234,50")
+ */
+export function formatBRL(value: number): string {
+  return `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Texto de um chunk transacional, no mesmo estilo das transações de exemplo
+ * Ex: "Débito de R$ 45,90 em 2025-03-04: IFOOD *RESTAURANTE. Cartão de crédito Nubank."
+ * @param origin Conta ou cartão de origem
+ */
+export function describeTransaction(
+  amount: number,
+  date: string,
+  description: string,
+  origin: string
+): string {
+  const kind = amount < 0 ? "Débito" : "Crédito";
+  return `${kind} de ${formatBRL(Math.abs(amount))} em ${date}: ${description}. ${origin}.`;
+}
+
+/**
+ * Converte um valor monetário em texto para número
+ *
+ * Aceita vírgula ou ponto como separador decimal:
+ * "-1.234,56" → -1234.56, "1,234.56" → 1234.56, "R$ 45,9" → 45.9
+ * Sem vírgula, pontos seguidos de grupos de 3 dígitos são milhar, como no
+ * pt-BR: "1.234" → 1234, "1.234.567" → 1234567 (mas "45.90" → 45.9).
+ * Não use para OFX, que sempre tem ponto decimal (ver parseOFXAmount)
+ * @returns O número ou null se o texto não for um valor válido
+ */
+export function parseAmount(raw: string): number | null {
+  let clean = raw.trim().replace(/R\$\s*/i, "").replace(/\s/g, "");
+
+  // Sinal no fim (ex: "45,90-") ou entre parênteses (ex: "(45,90)")
+  let negative = false;
+  if (/^\(.*\)$/.test(clean)) {
+    negative = true;
+    clean = clean.slice(1, -1);
+  }
+  if (clean.endsWith("-")) {
+    negative = true;
+    clean = clean.slice(0, -1);
+  }
+  if (clean.startsWith("-")) {
+    negative = !negative;
+    clean = clean.slice(1);
+  } else if (clean.startsWith("+")) {
+    clean = clean.slice(1);
+  }
+
+  const lastComma = clean.lastIndexOf(",");
+  const lastDot = clean.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    // Decimal com vírgula: pontos são separadores de milhar
+    clean = clean.replace(/\./g, "").replace(",", ".");
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    // Decimal com ponto: vírgulas são separadores de milhar
+    clean = clean.replace(/,/g, "");
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(clean)) {
+    // Só pontos, em grupos de milhar: valor inteiro
+    clean = clean.replace(/\./g, "");
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(clean)) {
+    return null;
+  }
+  const value = Number(clean);
+  return negative ? -value : value;
+}
+
+/**
+ * Gera um identificador seguro a partir de um texto (ex: "Itaú 123-4" → "itau-123-4")
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
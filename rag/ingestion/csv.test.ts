@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { CSV_PROFILES, parseCSVStatement } from "./csv.ts";
+
+const profile = CSV_PROFILES["nubank-conta"]!;
+
+describe("parseCSVStatement", () => {
+  test("campos entre aspas com quebra de linha", () => {
+    const csv = [
+      "Data,Valor,Identificador,Descrição",
+      '05/03/2025,-45.90,a1,"Compra no débito',
+      'Padaria ""Pão Quente"""',
+      "06/03/2025,-12.00,a2,Café",
+    ].join("\r\n");
+
+    const { chunks, rejected } = parseCSVStatement(csv, profile);
+
+    expect(rejected).toEqual([]);
+    expect(chunks.map((chunk) => [chunk.id, chunk.amount])).toEqual([
+      ["csv-nubank-conta-a1", -45.9],
+      ["csv-nubank-conta-a2", -12],
+    ]);
+    expect(chunks[0]?.text).toContain('Compra no débito Padaria "Pão Quente"');
+  });
+
+  test("linhas rejeitadas informam a linha do arquivo onde o registro começa", () => {
+    const csv = [
+      "Data,Valor,Identificador,Descrição",
+      '05/03/2025,-10.00,b1,"Mercado',
+      'Central"',
+      "31/02/2025,-5.00,b2,Data inválida",
+    ].join("\n");
+
+    const { chunks, rejected } = parseCSVStatement(csv, profile);
+
+    expect(chunks).toHaveLength(1);
+    expect(rejected).toMatchObject([{ line: 4 }]);
+  });
+
+  test("valores com ponto de milhar", () => {
+    const csv = ["Data;Valor;Identificador;Descrição", "05/03/2025;-1.234;c1;Aluguel"].join("\n");
+
+    expect(parseCSVStatement(csv, profile).chunks[0]?.amount).toBe(-1234);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Importador de extratos CSV
+ *
+ * Cada banco exporta CSV com colunas, formatos de data (DD/MM/YYYY),
+ * separador decimal e convenção de débito/crédito diferentes. Perfis de
+ * mapeamento nomeados (ou um perfil customizado) normalizam as linhas em
+ * FinancialChunks transacionais. Linhas inválidas são rejeitadas com o
+ * motivo, sem abortar o lote.
+ *
+ * Uso:
+ *   bun run rag/ingestion/csv.ts extrato.csv nubank-conta
+ */
+
+import { localUserScope, validateChunkData, type UserScope } from "../vector-db.ts";
+import { isValidISO8601Date } from "../utils/temporal.ts";
+import { categorizeChunks } from "../categories.ts";
+import type { ChatModel } from "../chat-model.ts";
+import { describeTransaction, embedAndInsert, parseAmount, slugify, type ChunkDraft } from "./common.ts";
+
+/**
+ * Como o valor da transação aparece no CSV
+ * - signed: uma coluna, negativo = débito (extratos de conta)
+ * - expense-positive: uma coluna, positivo = compra (faturas de cartão)
+ * - split: colunas separadas de débito e crédito
+ */
+export type CsvAmountMapping =
+  | { convention: "signed"; column: string }
+  | { convention: "expense-positive"; column: string }
+  | { convention: "split"; debitColumn: string; creditColumn: string };
+
+/**
+ * Perfil de mapeamento de um CSV de banco
+ * Nomes de colunas são comparados sem diferenciar maiúsculas e acentos
+ */
+export interface CsvMappingProfile {
+  name: string;
+  origin: string; // Conta/cartão exibido no texto do chunk (ex: "Conta Nubank")
+  source: string; // Fonte dos chunks (ex: "csv-nubank-conta")
+  delimiter?: "," | ";" | "\t"; // Detectado automaticamente se omitido
+  dateColumn: string;
+  dateFormat: "DD/MM/YYYY" | "DD/MM/YY" | "YYYY-MM-DD";
+  descriptionColumns: string[]; // Concatenadas com " - "
+  amount: CsvAmountMapping;
+  idColumn?: string; // Identificador da transação no banco, se houver
+  ignoreDescriptions?: RegExp; // Linhas informativas (ex: "SALDO DO DIA")
+}
+
+/**
+ * Linha rejeitada na importação
+ */
+export interface CsvRejectedRow {
+  line: number; // Número da linha no arquivo (1-based)
+  reason: string;
+  raw: string;
+}
+
+/**
+ * Resultado do parse de um CSV
+ */
+export interface CsvParseResult {
+  chunks: ChunkDraft[];
+  rejected: CsvRejectedRow[];
+}
+
+/**
+ * Resultado da importação
+ */
+export interface CsvImportResult {
+  parsed: number;
+  inserted: number;
+  rejected: CsvRejectedRow[];
+}
+
+/**
+ * Perfis dos bancos suportados
+ */
+export const CSV_PROFILES: Record<string, CsvMappingProfile> = {
+  "nubank-conta": {
+    name: "nubank-conta",
+    origin: "Conta Nubank",
+    source: "csv-nubank-conta",
+    dateColumn: "Data",
+    dateFormat: "DD/MM/YYYY",
+    descriptionColumns: ["Descrição"],
+    amount: { convention: "signed", column: "Valor" },
+    idColumn: "Identificador",
+  },
+  "nubank-cartao": {
+    name: "nubank-cartao",
+    origin: "Cartão de crédito Nubank",
+    source: "csv-nubank-cartao",
+    dateColumn: "date",
+    dateFormat: "YYYY-MM-DD",
+    descriptionColumns: ["title"],
+    amount: { convention: "expense-positive", column: "amount" },
+  },
+  inter: {
+    name: "inter",
+    origin: "Conta Inter",
+    source: "csv-inter",
+    delimiter: ";",
+    dateColumn: "Data Lançamento",
+    dateFormat: "DD/MM/YYYY",
+    descriptionColumns: ["Histórico", "Descrição"],
+    amount: { convention: "signed", column: "Valor" },
+  },
+  itau: {
+    name: "itau",
+    origin: "Conta Itaú",
+    source: "csv-itau",
+    delimiter: ";",
+    dateColumn: "data",
+    dateFormat: "DD/MM/YYYY",
+    descriptionColumns: ["lançamento"],
+    amount: { convention: "signed", column: "valor (R$)" },
+    ignoreDescriptions: /^(saldo|sdo)\b/i,
+  },
+  cartao: {
+    name: "cartao",
+    origin: "Cartão de crédito",
+    source: "csv-cartao",
+    dateColumn: "Data",
+    dateFormat: "DD/MM/YYYY",
+    descriptionColumns: ["Descrição"],
+    amount: { convention: "expense-positive", column: "Valor" },
+  },
+};
+
+/**
+ * Faz o parse de um CSV de extrato usando um perfil de mapeamento
+ *
+ * O cabeçalho é a primeira linha que contém todas as colunas do perfil
+ * (alguns bancos, como o Inter, colocam um preâmbulo antes dele).
+ */
+export function parseCSVStatement(
+  content: string,
+  profile: CsvMappingProfile
+): CsvParseResult {
+  const text = content.replace(/^\uFEFF/, "");
+  const records = splitCSVRecords(text);
+  const lines = records.map((record) => record.raw);
+  const delimiter = profile.delimiter ?? detectDelimiter(lines);
+
+  const requiredColumns = [
+    profile.dateColumn,
+    ...(profile.amount.convention === "split"
+      ? [profile.amount.debitColumn, profile.amount.creditColumn]
+      : [profile.amount.column]),
+  ];
+
+  const headerIndex = lines.findIndex((line) => {
+    const cells = splitCSVLine(line, delimiter).map(normalizeHeader);
+    return requiredColumns.every((column) => cells.includes(normalizeHeader(column)));
+  });
+  if (headerIndex === -1) {
+    throw new Error(
+      `Cabeçalho não encontrado para o perfil ${profile.name} (colunas: ${requiredColumns.join(", ")})`
+    );
+  }
+
+  const header = splitCSVLine(lines[headerIndex] ?? "", delimiter).map(normalizeHeader);
+  const column = (name: string) => header.indexOf(normalizeHeader(name));
+
+  const chunks: ChunkDraft[] = [];
+  const rejected: CsvRejectedRow[] = [];
+  const seenIds = new Map<string, number>();
+
+  for (const { line, raw } of records.slice(headerIndex + 1)) {
+    if (raw.trim().length === 0) {
+      continue;
+    }
+
+    // Campos entre aspas podem ter quebras de linha: viram espaços
+    const cells = splitCSVLine(raw, delimiter);
+    const cell = (name: string) => {
+      const index = column(name);
+      return index === -1 ? "" : (cells[index] ?? "").replace(/\s+/g, " ").trim();
+    };
+
+    try {
+      const description = profile.descriptionColumns
+        .map(cell)
+        .filter((part) => part.length > 0)
+        .join(" - ");
+      if (!description) {
+        throw new Error("descrição vazia");
+      }
+      if (profile.ignoreDescriptions?.test(description)) {
+        throw new Error(`linha informativa ignorada (${description})`);
+      }
+
+      const date = parseCSVDate(cell(profile.dateColumn), profile.dateFormat);
+      const amount = readAmount(profile.amount, cell);
+
+      // Transações idênticas no mesmo dia (ex: dois cafés) recebem sufixo
+      const baseId = profile.idColumn && cell(profile.idColumn)
+        ? slugify(cell(profile.idColumn))
+        : Bun.hash(`${date}|${amount}|${description}`).toString(36);
+      const occurrence = seenIds.get(baseId) ?? 0;
+      seenIds.set(baseId, occurrence + 1);
+
+      const chunk: ChunkDraft = {
+        id: `${slugify(profile.source)}-${baseId}${occurrence > 0 ? `-${occurrence}` : ""}`,
+        text: describeTransaction(amount, date, description, profile.origin),
+        type: "transacional",
+        date,
+        source: profile.source,
+        amount,
+      };
+      validateChunkData(chunk);
+      chunks.push(chunk);
+    } catch (error) {
+      rejected.push({
+        line,
+        reason: error instanceof Error ? error.message : String(error),
+        raw,
+      });
+    }
+  }
+
+  return { chunks, rejected };
+}
+
+/**
+ * Lê o valor com sinal (negativo = débito) conforme a convenção do perfil
+ */
+function readAmount(mapping: CsvAmountMapping, cell: (name: string) => string): number {
+  if (mapping.convention === "split") {
+    const debit = cell(mapping.debitColumn);
+    const credit = cell(mapping.creditColumn);
+    const debitValue = debit ? parseAmount(debit) : 0;
+    const creditValue = credit ? parseAmount(credit) : 0;
+    if (debitValue === null || creditValue === null) {
+      throw new Error(`valor inválido (débito: "${debit}", crédito: "${credit}")`);
+    }
+    if (debitValue === 0 && creditValue === 0) {
+      throw new Error("linha sem valor de débito ou crédito");
+    }
+    return creditValue !== 0 ? Math.abs(creditValue) : -Math.abs(debitValue);
+  }
+
+  const raw = cell(mapping.column);
+  const value = parseAmount(raw);
+  if (value === null) {
+    throw new Error(`valor inválido: "${raw}"`);
+  }
+  return mapping.convention === "expense-positive" ? -value : value;
+}
+
+/**
+ * Converte a data do CSV para ISO 8601
+ */
+function parseCSVDate(raw: string, format: CsvMappingProfile["dateFormat"]): string {
+  let iso = "";
+  if (format === "YYYY-MM-DD") {
+    iso = raw.slice(0, 10);
+  } else {
+    const match = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (match) {
+      const year = match[3]!.length === 2 ? `20${match[3]}` : match[3];
+      iso = `${year}-${match[2]!.padStart(2, "0")}-${match[1]!.padStart(2, "0")}`;
+    }
+  }
+
+  // Recusa datas que "rolam" para o mês seguinte (ex: 30/02)
+  const [year, month, day] = iso.split("-").map(Number);
+  const roundTrip = new Date(year ?? 0, (month ?? 0) - 1, day ?? 0);
+  if (!isValidISO8601Date(iso) || roundTrip.getDate() !== day) {
+    throw new Error(`data inválida: "${raw}" (esperado ${format})`);
+  }
+  return iso;
+}
+
+/**
+ * Detecta o separador pelo primeiro trecho não vazio do arquivo
+ */
+function detectDelimiter(lines: string[]): "," | ";" | "\t" {
+  const sample = lines.filter((line) => line.trim().length > 0).slice(0, 10).join("\n");
+  const counts = {
+    ";": sample.split(";").length,
+    ",": sample.split(",").length,
+    "\t": sample.split("\t").length,
+  };
+  return (Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? ",") as "," | ";" | "\t";
+}
+
+/**
+ * Divide o texto em registros: quebras de linha dentro de aspas pertencem ao campo
+ * @returns Registros com o número da linha (1-based) em que cada um começa
+ */
+function splitCSVRecords(text: string): { line: number; raw: string }[] {
+  const records: { line: number; raw: string }[] = [];
+  let start = 0;
+  let startLine = 1;
+  let line = 1;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      // Aspas escapadas ("") abrem e fecham em seguida: o estado não muda
+      inQuotes = !inQuotes;
+    } else if (char === "\n") {
+      line++;
+      if (!inQuotes) {
+        records.push({ line: startLine, raw: text.slice(start, i).replace(/\r$/, "") });
+        start = i + 1;
+        startLine = line;
+      }
+    }
+  }
+  records.push({ line: startLine, raw: text.slice(start).replace(/\r$/, "") });
+
+  return records;
+}
+
+/**
+ * Divide um registro CSV respeitando aspas ("a;b", aspas escapadas "" e quebras de linha)
+ */
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells;
+}
+
+/**
+ * Normaliza nome de coluna para comparação (sem acentos, minúsculo)
+ */
+function normalizeHeader(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Resolve um perfil pelo nome ou aceita um perfil customizado
+ */
+export function resolveCSVProfile(profile: string | CsvMappingProfile): CsvMappingProfile {
+  if (typeof profile !== "string") {
+    return profile;
+  }
+  const found = CSV_PROFILES[profile];
+  if (!found) {
+    throw new Error(
+      `Perfil CSV desconhecido: ${profile}. Disponíveis: ${Object.keys(CSV_PROFILES).join(", ")}`
+    );
+  }
+  return found;
+}
+
+/**
+ * Importa um extrato CSV: parse, categorias, embeddings e inserção no LanceDB
+ * @param scope Dono das transações
+ * @param content Conteúdo do arquivo
+ * @param profile Nome de um perfil de CSV_PROFILES ou perfil customizado
+ * @param options.categoryModel Fallback da classificação de categoria (ver categories.ts)
+ */
+export async function importCSV(
+  scope: UserScope,
+  content: string,
+  profile: string | CsvMappingProfile,
+  options: { categoryModel?: ChatModel } = {}
+): Promise<CsvImportResult> {
+  const parsed = parseCSVStatement(content, resolveCSVProfile(profile));
+  const chunks = await categorizeChunks(parsed.chunks, { model: options.categoryModel });
+  const rejected = parsed.rejected;
+  const inserted = await embedAndInsert(scope, chunks);
+
+  return { parsed: chunks.length, inserted, rejected };
+}
+
+/**
+ * Importa um arquivo CSV do disco
+ */
+export async function importCSVFile(
+  scope: UserScope,
+  path: string,
+  profile: string | CsvMappingProfile,
+  options: { categoryModel?: ChatModel } = {}
+): Promise<CsvImportResult> {
+  return importCSV(scope, await Bun.file(path).text(), profile, options);
+}
+
+// Se executado diretamente, importa o arquivo informado
+if (import.meta.main) {
+  const [path, profile] = process.argv.slice(2);
+  if (!path || !profile) {
+    console.error(
+      `Uso: bun run rag/ingestion/csv.ts <arquivo.csv> <perfil>\nPerfis: ${Object.keys(CSV_PROFILES).join(", ")}`
+    );
+    process.exit(1);
+  }
+
+  importCSVFile(localUserScope(), path, profile)
+    .then((result) => {
+      console.log(`✅ ${result.inserted} transações importadas`);
+      for (const row of result.rejected) {
+        console.log(`⚠️  Linha ${row.line} rejeitada: ${row.reason}`);
+      }
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Erro ao importar CSV:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { Table } from "@lancedb/lancedb";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { importDocument } from "./documents.ts";
+import { createHashingEmbedder, setEmbeddingProvider, type EmbeddingProvider } from "../embeddings.ts";
+import { closeLanceDB, countChunks, initLanceDB, scanChunks, type UserScope } from "../vector-db.ts";
+import { eq } from "../filters.ts";
+
+const USER: UserScope = { userId: "documents-test" };
+const embedder = createHashingEmbedder();
+
+const GUIDE = `# Dívidas
+
+Priorize as dívidas com os maiores juros.
+
+# Reserva
+
+Guarde de três a seis meses de gastos.`;
+
+let dbPath: string;
+
+beforeAll(async () => {
+  setEmbeddingProvider(embedder);
+  dbPath = await mkdtemp(join(tmpdir(), "documents-test-"));
+  await initLanceDB(dbPath);
+});
+
+afterAll(async () => {
+  await closeLanceDB();
+  await rm(dbPath, { recursive: true, force: true });
+});
+
+describe("importDocument", () => {
+  test("reimportar substitui os chunks anteriores", async () => {
+    const first = await importDocument(USER, GUIDE, { document: "guia.md" });
+    expect(first).toMatchObject({ sections: 2, chunks: 2, replaced: 0, inserted: 2 });
+
+    const second = await importDocument(USER, GUIDE, { document: "guia.md" });
+    expect(second).toMatchObject({ chunks: 2, replaced: 0, inserted: 0, unchanged: 2 });
+
+    const edited = GUIDE.replace("três a seis", "seis a doze").replace(/# Dívidas[\s\S]*?(?=# Reserva)/, "");
+    const third = await importDocument(USER, `${edited}\n\n# Metas\n\nDefina prazo e valor.`, { document: "guia.md" });
+    expect(third).toMatchObject({ sections: 2, chunks: 2, replaced: 2, inserted: 2, unchanged: 0 });
+
+    const texts = (await scanChunks(USER, eq("type", "educacao"), { shared: false })).map((chunk) => chunk.text).sort();
+    expect(texts).toEqual(["Metas: Defina prazo e valor.", "Reserva: Guarde de seis a doze meses de gastos."]);
+  });
+
+  test("falha ao gravar não apaga a importação anterior", async () => {
+    const add = spyOn(Table.prototype, "add").mockImplementationOnce(() => Promise.reject(new Error("disco cheio")));
+
+    try {
+      await expect(importDocument(USER, "# Outro\n\nConteúdo novo.", { document: "guia.md" })).rejects.toThrow(
+        "disco cheio"
+      );
+    } finally {
+      add.mockRestore();
+    }
+    expect(await countChunks(USER, eq("type", "educacao"))).toBe(2);
+  });
+
+  test("inserted conta só os chunks gravados", async () => {
+    // Parágrafos iguais viram chunks iguais da mesma seção: só o primeiro é gravado
+    const repeated = `# Dicas\n\n${"Anote todos os gastos do mês.\n\n".repeat(3)}`;
+
+    const result = await importDocument(USER, repeated, { document: "repetido.md", maxChars: 40, overlap: 0 });
+
+    expect(result).toMatchObject({ chunks: 3, inserted: 1 });
+  });
+
+  test("falha ao gerar embeddings não apaga a importação anterior", async () => {
+    const before = await countChunks(USER, eq("type", "educacao"));
+    const failing: EmbeddingProvider = {
+      ...embedder,
+      cache: false,
+      embed: () => Promise.reject(new Error("provedor fora do ar")),
+      embedBatch: () => Promise.reject(new Error("provedor fora do ar")),
+    };
+
+    await expect(
+      importDocument(USER, GUIDE, { document: "guia.md", provider: failing })
+    ).rejects.toThrow("provedor fora do ar");
+    expect(await countChunks(USER, eq("type", "educacao"))).toBe(before);
+  });
+});
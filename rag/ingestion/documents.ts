@@ -0,0 +1,442 @@
+/**
+ * Importador de documentos educacionais
+ *
+ * Lê guias de finanças em Markdown, texto puro ou HTML, divide o conteúdo
+ * pelas seções (títulos) e cada seção em chunks com sobreposição, para que
+ * uma ideia cortada no limite de um chunk continue no seguinte. Os chunks
+ * são gravados como FinancialChunks do tipo "educacao", com fonte
+ * "<documento>#<seção>".
+ *
+ * Reimportar um documento substitui todos os seus chunks anteriores (seções
+ * removidas ou renomeadas não deixam chunks órfãos).
+ *
+ * Pela linha de comando, os guias vão para a base de conhecimento
+ * compartilhada (SHARED_SCOPE), lida por todos os usuários.
+ *
+ * Uso:
+ *   bun run rag/ingestion/documents.ts guia-dividas.md [documento]
+ */
+
+import { basename, extname } from "node:path";
+import { contentHash, deleteChunks, scanChunks, SHARED_SCOPE, upsertChunks, type UserScope } from "../vector-db.ts";
+import { eq } from "../filters.ts";
+import { getEmbeddingProvider, type EmbeddingProvider } from "../embeddings.ts";
+import { splitSentences } from "../length-control.ts";
+import { toISO8601 } from "../utils/temporal.ts";
+import { embedChunks, slugify, type ChunkDraft } from "./common.ts";
+
+export type DocumentFormat = "markdown" | "text" | "html";
+
+/**
+ * Seção de um documento
+ */
+export interface DocumentSection {
+  headings: string[]; // Hierarquia de títulos (ex: ["Guia de dívidas", "Método bola de neve"])
+  slug: string; // Identificador da seção na fonte (único no documento)
+  text: string;
+}
+
+/**
+ * Tamanho dos chunks, em caracteres
+ */
+export interface ChunkingOptions {
+  maxChars?: number; // Tamanho máximo do conteúdo de um chunk (padrão: 1000)
+  overlap?: number; // Frases finais repetidas no chunk seguinte, até este tamanho (padrão: 200)
+}
+
+/**
+ * Opções de importação
+ */
+export interface DocumentImportOptions extends ChunkingOptions {
+  document: string; // Nome do documento (ex: "guia-dividas.md"); identifica os chunks na reimportação
+  format?: DocumentFormat; // Padrão: pela extensão do nome, senão "markdown"
+  date?: string; // Data dos chunks, YYYY-MM-DD (padrão: hoje)
+  provider?: EmbeddingProvider; // Padrão: provedor ativo
+}
+
+/**
+ * Resultado da importação
+ */
+export interface DocumentImportResult {
+  document: string; // Identificador do documento nas fontes
+  sections: number;
+  chunks: number;
+  replaced: number; // Chunks da importação anterior alterados ou removidos
+  inserted: number; // Gravados de fato, novos ou alterados (trechos repetidos no documento são gravados uma vez)
+  unchanged: number; // Iguais aos da importação anterior (não regravados)
+}
+
+/**
+ * Parte de um parágrafo (inteiro, frase ou trecho de frase)
+ */
+type TextUnit = { text: string; paragraph: number };
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP = 200;
+const UNTITLED_SECTION = "inicio"; // Texto antes do primeiro título
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".html": "html",
+  ".htm": "html",
+};
+
+/**
+ * Formato do documento pela extensão do nome (null se desconhecida)
+ */
+export function detectDocumentFormat(name: string): DocumentFormat | null {
+  return EXTENSION_FORMATS[extname(name).toLowerCase()] ?? null;
+}
+
+/**
+ * Identificador do documento nas fontes dos chunks
+ * Ex: "docs/Guia de Dívidas.md" → "guia-de-dividas"
+ */
+export function documentId(name: string): string {
+  const id = slugify(basename(name, extname(name)));
+  if (!id) {
+    throw new Error(`Nome de documento inválido: ${name}`);
+  }
+  return id;
+}
+
+/**
+ * Divide o documento em seções pelos títulos
+ * - markdown: títulos "#" e sublinhados (=== / ---)
+ * - text: títulos sublinhados
+ * - html: <h1> a <h6> (o restante vira texto)
+ */
+export function parseDocument(content: string, format: DocumentFormat): DocumentSection[] {
+  const markdown = format === "html" ? htmlToMarkdown(content) : content.replace(/\r\n?/g, "\n");
+  const lines = markdown.split("\n");
+
+  const sections: { headings: string[]; lines: string[] }[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current: { headings: string[]; lines: string[] } = { headings: [], lines: [] };
+  let inCodeBlock = false;
+
+  const startSection = (level: number, title: string): void => {
+    sections.push(current);
+    while (stack.length > 0 && stack.at(-1)!.level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title });
+    current = { headings: stack.map((heading) => heading.title), lines: [] };
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (format !== "text" && /^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      current.lines.push(line);
+      continue;
+    }
+    if (inCodeBlock) {
+      current.lines.push(line);
+      continue;
+    }
+
+    const atx = format !== "text" ? line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+    if (atx) {
+      startSection(atx[1]!.length, cleanInline(atx[2]!));
+      continue;
+    }
+
+    // Título sublinhado: a linha seguinte é só "=" (nível 1) ou "-" (nível 2)
+    const underline = lines[index + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (underline && line.trim() && !/^\s*[-*+]\s/.test(line)) {
+      startSection(underline[1]!.startsWith("=") ? 1 : 2, cleanInline(line.trim()));
+      index++;
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+  sections.push(current);
+
+  const slugs = new Map<string, number>();
+  return sections
+    .map((section) => ({ headings: section.headings, text: cleanBody(section.lines.join("\n")) }))
+    .filter((section) => section.text.length > 0)
+    .map((section) => {
+      const base = slugify(section.headings.at(-1) ?? "") || UNTITLED_SECTION;
+      const count = (slugs.get(base) ?? 0) + 1;
+      slugs.set(base, count);
+      return { ...section, slug: count === 1 ? base : `${base}-${count}` };
+    });
+}
+
+/**
+ * Divide o texto de uma seção em partes de até maxChars, repetindo as frases
+ * finais de cada parte (até overlap caracteres) no início da seguinte
+ * Parágrafos são mantidos inteiros quando cabem; senão, são divididos em frases
+ */
+export function chunkText(text: string, options: ChunkingOptions = {}): string[] {
+  const { maxChars = DEFAULT_MAX_CHARS, overlap = DEFAULT_OVERLAP } = options;
+  if (maxChars <= 0 || overlap < 0 || overlap >= maxChars) {
+    throw new Error(`Tamanho de chunk inválido: maxChars ${maxChars}, overlap ${overlap}`);
+  }
+
+  const units = text
+    .split(/\n{2,}/)
+    .flatMap((paragraph, index) =>
+      splitUnit(paragraph.trim(), maxChars).map((part): TextUnit => ({ text: part, paragraph: index }))
+    )
+    .filter((unit) => unit.text.length > 0);
+
+  const chunks: string[] = [];
+  let current: TextUnit[] = [];
+  for (const unit of units) {
+    if (current.length > 0 && joinUnits([...current, unit]).length > maxChars) {
+      const chunk = joinUnits(current);
+      chunks.push(chunk);
+      // A sobreposição só entra se couber junto com a próxima unidade
+      const tail: TextUnit = { text: overlapTail(chunk, overlap), paragraph: current.at(-1)!.paragraph };
+      current = tail.text && joinUnits([tail, unit]).length <= maxChars ? [tail] : [];
+    }
+    current.push(unit);
+  }
+  if (current.length > 0) {
+    chunks.push(joinUnits(current));
+  }
+  return chunks;
+}
+
+/**
+ * Converte um documento em chunks "educacao"
+ * O texto de cada chunk começa pelos títulos da seção, para a busca
+ * encontrar o trecho pelo assunto mesmo quando o corpo não o repete
+ */
+export function documentToChunks(
+  content: string,
+  options: DocumentImportOptions
+): { sections: DocumentSection[]; chunks: ChunkDraft[] } {
+  const id = documentId(options.document);
+  const format = options.format ?? detectDocumentFormat(options.document) ?? "markdown";
+  const date = options.date ?? toISO8601(new Date());
+  const sections = parseDocument(content, format);
+
+  const chunks = sections.flatMap((section) =>
+    chunkText(section.text, options).map((text, index): ChunkDraft => {
+      const title = section.headings.join(" > ");
+      return {
+        id: `doc-${id}-${section.slug}-${index + 1}`,
+        text: title ? `${title}: ${text}` : text,
+        type: "educacao",
+        date,
+        source: `${id}#${section.slug}`,
+      };
+    })
+  );
+
+  return { sections, chunks };
+}
+
+/**
+ * Importa um documento: chunks, embeddings e substituição dos chunks da
+ * importação anterior no LanceDB
+ * Os embeddings são gerados antes de qualquer escrita e os chunks novos são
+ * gravados (upsert pelo id) antes de remover os que saíram do documento: uma
+ * falha no meio do caminho não deixa o documento sem chunks.
+ * @param scope Usuário que recebe o documento (SHARED_SCOPE: base compartilhada)
+ */
+export async function importDocument(
+  scope: UserScope,
+  content: string,
+  options: DocumentImportOptions
+): Promise<DocumentImportResult> {
+  const id = documentId(options.document);
+  const { sections, chunks: drafts } = documentToChunks(content, options);
+  const provider = options.provider ?? getEmbeddingProvider();
+
+  // Trechos repetidos no documento são gravados uma vez (o primeiro)
+  const seen = new Set<string>();
+  const unique = drafts.filter((draft) => {
+    const hash = contentHash(draft);
+    if (seen.has(hash)) {
+      return false;
+    }
+    seen.add(hash);
+    return true;
+  });
+  const chunks = unique.length > 0 ? await embedChunks(unique, provider) : [];
+
+  const previous = (await scanChunks(scope, eq("type", "educacao"), { shared: false }))
+    .filter((chunk) => chunk.source.startsWith(`${id}#`))
+    .map((chunk) => chunk.id);
+
+  const { inserted, updated, skipped } =
+    chunks.length > 0
+      ? await upsertChunks(scope, chunks, { embeddingModel: provider.model })
+      : { inserted: 0, updated: 0, skipped: 0 };
+  const current = new Set(chunks.map((chunk) => chunk.id));
+  const stale = previous.filter((chunkId) => !current.has(chunkId));
+  const removed = stale.length > 0 ? await deleteChunks(scope, stale) : 0;
+
+  return {
+    document: id,
+    sections: sections.length,
+    chunks: drafts.length,
+    replaced: updated + removed,
+    inserted: inserted + updated,
+    unchanged: skipped,
+  };
+}
+
+/**
+ * Importa um documento do disco (nome do documento = nome do arquivo, se omitido)
+ */
+export async function importDocumentFile(
+  scope: UserScope,
+  path: string,
+  options: Partial<DocumentImportOptions> = {}
+): Promise<DocumentImportResult> {
+  const content = await Bun.file(path).text();
+  return importDocument(scope, content, {
+    ...options,
+    document: options.document ?? path,
+    format: options.format ?? detectDocumentFormat(path) ?? undefined,
+  });
+}
+
+/**
+ * Parágrafo em partes de até maxChars: frases e, se uma frase não couber, palavras
+ */
+function splitUnit(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) {
+    return [paragraph];
+  }
+  const sentences = splitSentences(paragraph).map((sentence) => sentence.trim()).filter(Boolean);
+  if (sentences.length > 1) {
+    return sentences.flatMap((sentence) => splitUnit(sentence, maxChars));
+  }
+
+  const parts: string[] = [];
+  let part = "";
+  for (const word of paragraph.split(/\s+/)) {
+    if (part && part.length + 1 + word.length > maxChars) {
+      parts.push(part);
+      part = "";
+    }
+    part = part ? `${part} ${word}` : word.slice(0, maxChars);
+  }
+  if (part) {
+    parts.push(part);
+  }
+  return parts;
+}
+
+/**
+ * Frases finais do chunk que cabem em "overlap" caracteres
+ */
+function overlapTail(chunk: string, overlap: number): string {
+  const sentences = splitSentences(chunk);
+  let tail = "";
+  for (let index = sentences.length - 1; index > 0; index--) {
+    const candidate = sentences[index]! + tail;
+    if (candidate.trim().length > overlap) {
+      break;
+    }
+    tail = candidate;
+  }
+  return tail.trim();
+}
+
+/**
+ * Junta as partes: frases do mesmo parágrafo com espaço, parágrafos com linha em branco
+ */
+function joinUnits(units: TextUnit[]): string {
+  return units
+    .map((unit, index) => {
+      const previous = units[index - 1];
+      if (!previous) {
+        return unit.text;
+      }
+      return `${previous.paragraph === unit.paragraph ? " " : "\n\n"}${unit.text}`;
+    })
+    .join("");
+}
+
+/**
+ * HTML → Markdown simplificado: títulos viram "#", blocos viram parágrafos
+ */
+function htmlToMarkdown(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/\r\n?/g, "\n")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|head|nav|footer)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, title: string) => {
+        const text = title.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+        return `\n\n${"#".repeat(Number(level))} ${text}\n\n`;
+      })
+      .replace(/\s*<li\b[^>]*>\s*/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|section|article|ul|ol|table|blockquote|pre)>/gi, "\n\n")
+      .replace(/<\/tr>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  );
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Remove a marcação inline do Markdown (ênfase, links, código)
+ */
+function cleanInline(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/g, "$1$3")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+/**
+ * Corpo da seção: sem marcação inline, espaços normalizados, no máximo uma
+ * linha em branco entre parágrafos
+ */
+function cleanBody(text: string): string {
+  return cleanInline(text.replace(/^\s*(```|~~~).*$/gm, ""))
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trimEnd())
+    .join("\n")
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "") // Linhas horizontais
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Se executado diretamente, importa o arquivo informado
+if (import.meta.main) {
+  const [path, document] = process.argv.slice(2);
+  if (!path) {
+    console.error("Uso: bun run rag/ingestion/documents.ts <arquivo.md|.txt|.html> [documento]");
+    process.exit(1);
+  }
+
+  importDocumentFile(SHARED_SCOPE, path, { document })
+    .then((result) => {
+      const replaced = result.replaced > 0 ? ` (${result.replaced} chunks anteriores substituídos)` : "";
+      const unchanged = result.unchanged > 0 ? `, ${result.unchanged} sem alteração` : "";
+      console.log(
+        `✅ ${result.inserted} chunks de ${result.sections} seções importados de ${result.document}${unchanged}${replaced}`
+      );
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Erro ao importar documento:", error);
+      process.exit(1);
+    });
+}
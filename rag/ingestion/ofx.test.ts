@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import { decodeOFX, ofxToChunks, parseOFX, parseOFXAmount, parseOFXDate } from "./ofx.ts";
+
+/**
+ * Extrato SGML mínimo com as transações informadas
+ */
+function sgml(transactions: string): string {
+  return `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>BRL
+<BANKACCTFROM><BANKID>0341<ACCTID>12345-6<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+${transactions}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+}
+
+describe("parseOFXAmount", () => {
+  test.each([
+    ["-1.500", -1.5],
+    ["-45.90", -45.9],
+    ["+3200.00", 3200],
+    ["1500", 1500],
+    ["-45,90", -45.9],
+    [".5", 0.5],
+  ])("%p → %p", (raw, expected) => {
+    expect(parseOFXAmount(raw)).toBe(expected);
+  });
+
+  test.each(["", "-", "1.234,56", "1,234.56", "R$ 10", "dez reais"])("%p não é um valor OFX", (raw) => {
+    expect(parseOFXAmount(raw)).toBeNull();
+  });
+});
+
+const XML = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <SIGNONMSGSRSV1><SONRS><FI><ORG>Nubank</ORG><FID>260</FID></FI></SONRS></SIGNONMSGSRSV1>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>BRL</CURDEF>
+    <CCACCTFROM><ACCTID>5555-0001</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20250315103000.000[-3:BRT]</DTPOSTED>
+        <TRNAMT>-89.90</TRNAMT>
+        <FITID>n-1</FITID>
+        <MEMO>Netflix &amp; Spotify</MEMO>
+      </STMTTRN>
+      <STMTTRN>
+        <TRNTYPE>PAYMENT</TRNTYPE>
+        <DTPOSTED>20250320</DTPOSTED>
+        <TRNAMT>+500.00</TRNAMT>
+        <FITID>n-2</FITID>
+        <NAME>Pagamento recebido</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe("parseOFX", () => {
+  test("SGML 1.x: tags folha sem fechamento", () => {
+    const statements = parseOFX(
+      sgml(`<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250304120000<TRNAMT>-45.90<FITID>A1<MEMO>IFOOD *RESTAURANTE</STMTTRN>
+<STMTTRN><DTPOSTED>20250305<TRNAMT>3200.00<FITID>A2<NAME>SALARIO</STMTTRN>`)
+    );
+
+    expect(statements).toEqual([
+      {
+        organization: undefined,
+        bankId: "0341",
+        accountId: "12345-6",
+        accountType: "bank",
+        currency: "BRL",
+        transactions: [
+          {
+            fitId: "A1",
+            type: "DEBIT",
+            date: "2025-03-04",
+            amount: -45.9,
+            name: undefined,
+            memo: "IFOOD *RESTAURANTE",
+            checkNumber: undefined,
+          },
+          {
+            fitId: "A2",
+            type: "CREDIT", // Sem TRNTYPE: deduzido do sinal
+            date: "2025-03-05",
+            amount: 3200,
+            name: "SALARIO",
+            memo: undefined,
+            checkNumber: undefined,
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("XML 2.x com cartão de crédito (CCSTMTRS), data com fuso e valor com sinal", () => {
+    const [statement] = parseOFX(XML);
+
+    expect(statement).toMatchObject({ organization: "Nubank", accountId: "5555-0001", accountType: "creditcard" });
+    expect(statement?.transactions.map(({ date, amount, memo, name }) => ({ date, amount, memo, name }))).toEqual([
+      { date: "2025-03-15", amount: -89.9, memo: "Netflix & Spotify", name: undefined },
+      { date: "2025-03-20", amount: 500, memo: undefined, name: "Pagamento recebido" },
+    ]);
+    expect(ofxToChunks([statement!])[0]).toMatchObject({ id: "ofx-5555-0001-n-1", source: "ofx-nubank-5555-0001" });
+  });
+
+  test("TRNAMT com ponto é sempre decimal", () => {
+    const [statement] = parseOFX(sgml("<STMTTRN><DTPOSTED>20250304<TRNAMT>-1.500<FITID>A1</STMTTRN>"));
+
+    expect(statement?.transactions[0]?.amount).toBe(-1.5);
+  });
+
+  test("FITID ausente: identificador estável a partir da transação", () => {
+    const content = sgml("<STMTTRN><DTPOSTED>20250304<TRNAMT>-10.00<MEMO>PADARIA</STMTTRN>");
+
+    const [first] = parseOFX(content)[0]!.transactions;
+    expect(first?.fitId).toBe("2025-03-04-10-padaria");
+    expect(parseOFX(content)[0]!.transactions[0]?.fitId).toBe(first?.fitId);
+  });
+
+  test.each([
+    ["sem a tag <OFX>", "OFXHEADER:100\nDATA:OFXSGML", "tag <OFX> não encontrada"],
+    ["conta sem ACCTID", sgml("").replace("<ACCTID>12345-6", ""), "Extrato OFX sem ACCTID em <STMTRS>"],
+    ["transação sem TRNAMT", sgml("<STMTTRN><DTPOSTED>20250304<FITID>A1</STMTTRN>"), "sem DTPOSTED ou TRNAMT"],
+    ["valor inválido", sgml("<STMTTRN><DTPOSTED>20250304<TRNAMT>1.234,56</STMTTRN>"), "Valor inválido"],
+    ["data inválida", sgml("<STMTTRN><DTPOSTED>20250231<TRNAMT>-1.00</STMTTRN>"), "Data OFX inválida"],
+  ])("%s → erro", (_, content, message) => {
+    expect(() => parseOFX(content)).toThrow(message);
+  });
+});
+
+describe("parseOFXDate", () => {
+  test.each([
+    ["20250304", "2025-03-04"],
+    ["20250304120000", "2025-03-04"],
+    ["20250304120000.000", "2025-03-04"],
+    ["20250304120000.000[-3:BRT]", "2025-03-04"],
+    ["20251231235959[-3]", "2025-12-31"],
+  ])("%p → %s", (raw, expected) => {
+    expect(parseOFXDate(raw)).toBe(expected);
+  });
+});
+
+describe("decodeOFX", () => {
+  const latin1 = (text: string) => new Uint8Array([...text].map((char) => char.charCodeAt(0)));
+
+  test.each([
+    ["CHARSET:1252 (SGML)", "OFXHEADER:100\nENCODING:USASCII\nCHARSET:1252\n\n"],
+    ["encoding windows-1252 (XML)", '<?xml version="1.0" encoding="windows-1252"?>\n'],
+    ["encoding ISO-8859-1 (XML)", '<?xml version="1.0" encoding="ISO-8859-1"?>\n'],
+  ])("%s: bytes lidos como Latin-1", (_, header) => {
+    expect(decodeOFX(latin1(`${header}<OFX><MEMO>FARMÁCIA SÃO JOÃO</OFX>`))).toContain("FARMÁCIA SÃO JOÃO");
+  });
+
+  test("sem charset declarado: UTF-8", () => {
+    const bytes = new TextEncoder().encode("OFXHEADER:100\nCHARSET:NONE\n\n<OFX><MEMO>FARMÁCIA</OFX>");
+
+    expect(decodeOFX(bytes)).toContain("FARMÁCIA");
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Importador de extratos OFX
+ *
+ * Lê exportações OFX dos bancos (SGML 1.x e XML 2.x), extrai as transações
+ * (STMTTRN) e as converte em FinancialChunks do tipo "transacional".
+ *
+ * Uso:
+ *   bun run rag/ingestion/ofx.ts extrato.ofx [fonte]
+ */
+
+import { isValidISO8601Date } from "../utils/temporal.ts";
+import { localUserScope, type UserScope } from "../vector-db.ts";
+import { categorizeChunks } from "../categories.ts";
+import type { ChatModel } from "../chat-model.ts";
+import { describeTransaction, embedAndInsert, slugify, type ChunkDraft } from "./common.ts";
+
+/**
+ * Transação de um extrato OFX
+ */
+export interface OFXTransaction {
+  fitId: string; // Identificador da transação no banco
+  type: string; // TRNTYPE (DEBIT, CREDIT, PAYMENT, ...)
+  date: string; // ISO 8601: YYYY-MM-DD
+  amount: number; // Negativo para débitos
+  name?: string;
+  memo?: string;
+  checkNumber?: string;
+}
+
+/**
+ * Extrato OFX (uma conta)
+ */
+export interface OFXStatement {
+  organization?: string; // FI/ORG (nome do banco)
+  bankId?: string;
+  accountId: string;
+  accountType: "bank" | "creditcard";
+  currency: string;
+  transactions: OFXTransaction[];
+}
+
+/**
+ * Opções de importação
+ */
+export interface OFXImportOptions {
+  source?: string; // Fonte dos chunks (padrão: "ofx-<banco>-<conta>")
+  categoryModel?: ChatModel; // Fallback da classificação de categoria (ver categories.ts)
+}
+
+/**
+ * Resultado da importação
+ */
+export interface OFXImportResult {
+  statements: number;
+  transactions: number;
+  inserted: number;
+}
+
+/**
+ * Decodifica os bytes de um arquivo OFX respeitando o charset do cabeçalho
+ * Bancos brasileiros costumam exportar em Windows-1252 (CHARSET:1252)
+ */
+export function decodeOFX(bytes: Uint8Array): string {
+  const head = new TextDecoder("windows-1252").decode(bytes.subarray(0, 512));
+  const isLatin1 =
+    /CHARSET:\s*(1252|8859|ISO-8859-1)/i.test(head) ||
+    /encoding="(windows-1252|iso-8859-1)"/i.test(head);
+  return new TextDecoder(isLatin1 ? "windows-1252" : "utf-8").decode(bytes);
+}
+
+/**
+ * Faz o parse de um arquivo OFX (SGML 1.x ou XML 2.x)
+ *
+ * No SGML as tags folha não têm fechamento (ex: "<TRNAMT>-45.90"), então os
+ * valores são lidos até o próximo "<" ou quebra de linha, o que também
+ * funciona para o XML.
+ * @returns Um extrato por conta encontrada (STMTRS ou CCSTMTRS)
+ */
+export function parseOFX(content: string): OFXStatement[] {
+  const bodyStart = content.search(/<OFX>/i);
+  if (bodyStart === -1) {
+    throw new Error("Arquivo OFX inválido: tag <OFX> não encontrada");
+  }
+  const body = content.slice(bodyStart);
+  const organization = readTag(body, "ORG");
+
+  const statements: OFXStatement[] = [];
+  for (const [accountType, tag] of [["bank", "STMTRS"], ["creditcard", "CCSTMTRS"]] as const) {
+    for (const block of readBlocks(body, tag)) {
+      const accountId = readTag(block, "ACCTID");
+      if (!accountId) {
+        throw new Error(`Extrato OFX sem ACCTID em <${tag}>`);
+      }
+
+      statements.push({
+        organization,
+        bankId: readTag(block, "BANKID"),
+        accountId,
+        accountType,
+        currency: readTag(block, "CURDEF") ?? "BRL",
+        transactions: readBlocks(block, "STMTTRN").map(parseTransaction),
+      });
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Converte uma transação STMTTRN
+ */
+function parseTransaction(block: string): OFXTransaction {
+  const rawDate = readTag(block, "DTPOSTED");
+  const rawAmount = readTag(block, "TRNAMT");
+  if (!rawDate || !rawAmount) {
+    throw new Error(`Transação OFX sem DTPOSTED ou TRNAMT: ${block.slice(0, 120)}`);
+  }
+
+  const date = parseOFXDate(rawDate);
+  const amount = parseOFXAmount(rawAmount);
+  if (amount === null) {
+    throw new Error(`Valor inválido na transação OFX: ${rawAmount}`);
+  }
+
+  const name = readTag(block, "NAME");
+  const memo = readTag(block, "MEMO");
+
+  return {
+    // Alguns bancos omitem FITID; usa data+valor+descrição como identificador estável
+    fitId: readTag(block, "FITID") ?? slugify(`${date} ${amount} ${name ?? ""} ${memo ?? ""}`),
+    type: (readTag(block, "TRNTYPE") ?? (amount < 0 ? "DEBIT" : "CREDIT")).toUpperCase(),
+    date,
+    amount,
+    name,
+    memo,
+    checkNumber: readTag(block, "CHECKNUM"),
+  };
+}
+
+/**
+ * Converte data OFX (YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]]) para ISO 8601
+ */
+export function parseOFXDate(raw: string): string {
+  const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  const date = match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+  if (!isValidISO8601Date(date)) {
+    throw new Error(`Data OFX inválida: ${raw}`);
+  }
+  return date;
+}
+
+/**
+ * Converte valor OFX (TRNAMT) para número
+ *
+ * O OFX não tem separador de milhar: "-1.500" é -1,5 e não -1500. Alguns
+ * bancos usam vírgula como separador decimal ("-45,90"), o que a spec permite.
+ * @returns O valor, ou null se não for um número OFX válido
+ */
+export function parseOFXAmount(raw: string): number | null {
+  const match = raw.trim().match(/^([+-]?)(\d*)(?:[.,](\d+))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+  const value = Number(`${match[2] || "0"}.${match[3] ?? "0"}`);
+  return match[1] === "-" ? -value : value;
+}
+
+/**
+ * Converte extratos OFX em chunks transacionais (sem embedding)
+ * @param statements Extratos retornados por parseOFX
+ * @param options.source Fonte dos chunks (padrão: "ofx-<banco>-<conta>")
+ */
+export function ofxToChunks(
+  statements: OFXStatement[],
+  options: { source?: string } = {}
+): ChunkDraft[] {
+  return statements.flatMap((statement) => {
+    const bank = statement.organization ?? statement.bankId ?? "banco";
+    const source = options.source ?? `ofx-${slugify(bank)}-${slugify(statement.accountId)}`;
+
+    return statement.transactions.map((transaction) => ({
+      id: `ofx-${slugify(statement.accountId)}-${slugify(transaction.fitId)}`,
+      text: describeOFXTransaction(transaction, statement, bank),
+      type: "transacional" as const,
+      date: transaction.date,
+      source,
+      amount: transaction.amount,
+    }));
+  });
+}
+
+/**
+ * Texto do chunk: descrição (NAME/MEMO) e conta de origem
+ */
+function describeOFXTransaction(
+  transaction: OFXTransaction,
+  statement: OFXStatement,
+  bank: string
+): string {
+  const description = [transaction.name, transaction.memo]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(" - ") || transaction.type;
+  const account = statement.accountType === "creditcard"
+    ? `Cartão de crédito ${bank}`
+    : `Conta ${statement.accountId} (${bank})`;
+
+  return describeTransaction(transaction.amount, transaction.date, description, account);
+}
+
+/**
+ * Importa um extrato OFX: parse, categorias, embeddings e inserção no LanceDB
+ * @param scope Dono das transações
+ * @param content Conteúdo do arquivo (texto ou bytes)
+ * @param options Fonte dos chunks e modelo de fallback das categorias
+ */
+export async function importOFX(
+  scope: UserScope,
+  content: string | Uint8Array,
+  options: OFXImportOptions = {}
+): Promise<OFXImportResult> {
+  const text = typeof content === "string" ? content : decodeOFX(content);
+  const statements = parseOFX(text);
+  const drafts = await categorizeChunks(ofxToChunks(statements, options), {
+    model: options.categoryModel,
+  });
+  const inserted = await embedAndInsert(scope, drafts);
+
+  return {
+    statements: statements.length,
+    transactions: drafts.length,
+    inserted,
+  };
+}
+
+/**
+ * Importa um arquivo OFX do disco
+ */
+export async function importOFXFile(
+  scope: UserScope,
+  path: string,
+  options: OFXImportOptions = {}
+): Promise<OFXImportResult> {
+  const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+  return importOFX(scope, bytes, options);
+}
+
+/**
+ * Lê o valor de uma tag folha (primeira ocorrência)
+ */
+function readTag(content: string, tag: string): string | undefined {
+  const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+/**
+ * Lê todos os blocos de um agregado (<TAG>...</TAG>)
+ */
+function readBlocks(content: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  return [...content.matchAll(regex)].map((match) => match[1] ?? "");
+}
+
+/**
+ * Decodifica entidades SGML/XML básicas
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Se executado diretamente, importa o arquivo informado
+if (import.meta.main) {
+  const [path, source] = process.argv.slice(2);
+  if (!path) {
+    console.error("Uso: bun run rag/ingestion/ofx.ts <arquivo.ofx> [fonte]");
+    process.exit(1);
+  }
+
+  importOFXFile(localUserScope(), path, { source })
+    .then((result) => {
+      console.log(`✅ ${result.inserted} transações importadas de ${result.statements} extrato(s)`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Erro ao importar OFX:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,32 @@
+/**
+ * Extração de intenção por regras (sem LLM)
+ *
+ * Fallback do Query Understanding quando o modelo falha e intenção do modelo
+ * offline (provedor "mock"), usado na avaliação e nos testes. Fica fora de
+ * query-understanding.ts para o modelo offline não depender do pipeline.
+ */
+
+import { parseTemporalExpression } from "./utils/temporal.ts";
+import { classifyByRules } from "./categories.ts";
+import { classifyReplyKind, getResponseProfile } from "./response-profiles.ts";
+import type { QueryIntent } from "./query-understanding.ts";
+
+/**
+ * Fallback: extração básica sem LLM (caso o Llama falhe; também usada na avaliação offline)
+ */
+export function fallbackIntentExtraction(query: string, currentDate: Date): QueryIntent {
+  const type = classifyReplyKind(query);
+
+  // O parser temporal reconhece a expressão dentro da própria pergunta
+  const parsed = parseTemporalExpression(query, currentDate);
+  const hasTemporal = parsed.start !== null && parsed.end !== null;
+  const temporalExpression = hasTemporal ? query : undefined;
+  
+  return {
+    type,
+    hasTemporalFilter: hasTemporal,
+    temporalExpression,
+    keywords: query.split(/\s+/).filter(w => w.length > 3),
+    category: getResponseProfile(type).aggregate ? classifyByRules(query) ?? undefined : undefined,
+  };
+}
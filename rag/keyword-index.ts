@@ -0,0 +1,104 @@
+/**
+ * Índice de palavras-chave (BM25) sobre a coluna "text"
+ *
+ * A versão do LanceDB usada aqui não tem índice full-text, então o índice é
+ * mantido em memória: construído a partir de uma varredura da tabela e
+ * descartado pelo vector-db.ts a cada escrita. Nomes exatos de
+ * estabelecimentos ("iFood", "Uber") que a busca vetorial perde são
+ * encontrados aqui.
+ */
+
+import { matchesFilter, type ChunkFilter } from "./filters.ts";
+import { tokenize } from "./utils/tokenize.ts";
+import type { SearchResult } from "./vector-db.ts";
+
+/**
+ * Documento indexado
+ */
+interface IndexedDocument {
+  row: SearchResult;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Índice invertido com as estatísticas do BM25
+ */
+export interface KeywordIndex {
+  documents: IndexedDocument[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Parâmetros usuais do BM25
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Constrói o índice a partir das linhas da tabela
+ */
+export function buildKeywordIndex(rows: SearchResult[]): KeywordIndex {
+  const documentFrequencies = new Map<string, number>();
+  const documents = rows.map((row) => {
+    const terms = tokenize(row.text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+    return { row, termFrequencies, length: terms.length };
+  });
+
+  const totalLength = documents.reduce((total, document) => total + document.length, 0);
+  return {
+    documents,
+    documentFrequencies,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Busca BM25 restrita às linhas que satisfazem o filtro
+ * @returns Linhas com pontuação > 0, da maior para a menor (score em _score)
+ */
+export function searchKeywordIndex(
+  index: KeywordIndex,
+  keywords: string[],
+  filter?: ChunkFilter,
+  limit: number = 5
+): SearchResult[] {
+  const queryTerms = [...new Set(keywords.flatMap(tokenize))];
+  if (queryTerms.length === 0 || index.documents.length === 0) {
+    return [];
+  }
+
+  const totalDocuments = index.documents.length;
+  const scored: SearchResult[] = [];
+  for (const document of index.documents) {
+    if (filter && !matchesFilter(filter, document.row)) {
+      continue;
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = document.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalization = K1 * (1 - B + B * (document.length / (index.averageLength || 1)));
+      score += idf * ((frequency * (K1 + 1)) / (frequency + normalization));
+    }
+
+    if (score > 0) {
+      scored.push({ ...document.row, _score: score });
+    }
+  }
+
+  return scored.sort((a, b) => (b._score ?? 0) - (a._score ?? 0)).slice(0, limit);
+}
@@ -0,0 +1,230 @@
+/**
+ * Controle de tamanho das respostas
+ *
+ * Cada tipo de resposta tem um orçamento de caracteres (mínimo e máximo),
+ * definido no seu perfil (ver response-profiles.ts).
+ * Acima do máximo, o texto é cortado na última fronteira de frase ou de
+ * item de lista que cabe — nunca no meio de uma palavra, de um número
+ * ("R$ 1.2") ou de um emoji. Abaixo do mínimo, o modelo é chamado de novo
+ * para continuar (ou regerar, se a resposta veio vazia).
+ *
+ * Tamanhos são contados em grafemas (o que o usuário vê como caractere).
+ */
+
+import type { ChatMessage, ChatModel } from "./chat-model.ts";
+
+/**
+ * Orçamento de caracteres de uma resposta
+ */
+export interface LengthBudget {
+  min: number;
+  max: number;
+}
+
+/**
+ * Resultado do ajuste de tamanho
+ */
+export interface FitResult {
+  text: string;
+  truncated: boolean; // Cortado para caber no máximo
+  continued: boolean; // Complementado por estar abaixo do mínimo
+}
+
+/**
+ * Opções para complementar respostas curtas
+ */
+export interface FitOptions {
+  model?: ChatModel; // Sem modelo, respostas curtas ficam como estão
+  messages?: ChatMessage[]; // Conversa que gerou a resposta
+  maxContinuations?: number; // Padrão: 1
+}
+
+const graphemeSegmenter = new Intl.Segmenter("pt-BR", { granularity: "grapheme" });
+const wordSegmenter = new Intl.Segmenter("pt-BR", { granularity: "word" });
+const sentenceSegmenter = new Intl.Segmenter("pt-BR", { granularity: "sentence" });
+
+/**
+ * Quantidade de grafemas (emojis compostos e acentos contam como 1)
+ */
+export function countGraphemes(text: string): number {
+  let count = 0;
+  for (const _ of graphemeSegmenter.segment(text)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Frases do texto (itens de lista em linhas separadas também são frases)
+ */
+export function splitSentences(text: string): string[] {
+  return [...sentenceSegmenter.segment(text)].map((segment) => segment.segment);
+}
+
+/**
+ * Corta o texto para caber em "max" grafemas
+ *
+ * Prefere a última frase/item completo que cabe. Se nem a primeira frase
+ * cabe, corta na última palavra inteira e termina com "…".
+ */
+export function truncateAtBoundary(text: string, max: number): { text: string; truncated: boolean } {
+  const clean = text.trim();
+  if (countGraphemes(clean) <= max) {
+    return { text: clean, truncated: false };
+  }
+
+  let kept = "";
+  for (const sentence of splitSentences(clean)) {
+    if (countGraphemes((kept + sentence).trimEnd()) > max) {
+      break;
+    }
+    kept += sentence;
+  }
+  if (kept.trim()) {
+    return { text: kept.trim(), truncated: true };
+  }
+
+  // Primeira frase maior que o limite: corta por palavra (reserva 1 para "…")
+  let words = "";
+  for (const { segment } of wordSegmenter.segment(clean)) {
+    if (countGraphemes((words + segment).trimEnd()) > max - 1) {
+      break;
+    }
+    words += segment;
+  }
+  if (!words.trim()) {
+    words = [...graphemeSegmenter.segment(clean)].slice(0, max - 1).map((segment) => segment.segment).join("");
+  }
+  return { text: `${words.trimEnd().replace(/[,;:\-–]+$/, "")}…`, truncated: true };
+}
+
+/**
+ * Mensagens para pedir a continuação de uma resposta curta
+ */
+export function buildContinuationMessages(
+  messages: ChatMessage[],
+  partial: string,
+  budget: LengthBudget
+): ChatMessage[] {
+  const missing = budget.min - countGraphemes(partial);
+  return [
+    ...messages,
+    { role: "assistant", content: partial },
+    {
+      role: "user",
+      content: `Continue a resposta anterior sem repetir o que já foi dito. Acrescente cerca de ${missing} caracteres e termine com uma frase completa.`,
+    },
+  ];
+}
+
+/**
+ * Ajusta uma resposta ao orçamento
+ *
+ * - Acima do máximo: corta em fronteira de frase (truncateAtBoundary)
+ * - Abaixo do mínimo: pede continuação ao modelo (ou regera, se vazia)
+ */
+export async function fitToBudget(
+  text: string,
+  budget: LengthBudget,
+  options: FitOptions = {}
+): Promise<FitResult> {
+  const { model, messages, maxContinuations = 1 } = options;
+  let current = text.trim();
+  let continued = false;
+
+  for (let attempt = 0; attempt < maxContinuations && model && messages; attempt++) {
+    if (countGraphemes(current) >= budget.min) {
+      break;
+    }
+    try {
+      if (!current) {
+        current = (await model.chat({ messages, temperature: 0.5, maxTokens: 400 })).trim();
+      } else {
+        const continuation = await model.chat({
+          messages: buildContinuationMessages(messages, current, budget),
+          temperature: 0.5,
+          maxTokens: 400,
+        });
+        current = joinContinuation(current, continuation);
+      }
+      continued = true;
+    } catch (error) {
+      // Resposta curta é melhor que nenhuma resposta
+      console.error("Erro ao complementar resposta:", error);
+      break;
+    }
+  }
+
+  const truncated = truncateAtBoundary(current, budget.max);
+  return { text: truncated.text, truncated: truncated.truncated, continued };
+}
+
+/**
+ * Junta a continuação ao texto, com um espaço entre eles
+ */
+export function joinContinuation(partial: string, continuation: string): string {
+  const next = continuation.trim();
+  return next ? `${partial.trimEnd()} ${next}` : partial.trim();
+}
+
+/**
+ * Limitador de streaming
+ *
+ * Recebe os deltas do modelo e só libera frases completas. Quando o texto
+ * passa do máximo, libera até a última fronteira que cabe e sinaliza que a
+ * geração deve parar.
+ */
+export interface StreamLimiter {
+  /** Adiciona um delta; "text" é o que pode ser emitido, "stop" pede para parar a geração */
+  push(delta: string): { text: string; stop: boolean };
+  /** Fim da geração: libera o restante */
+  flush(): string;
+  /** Texto emitido até agora */
+  readonly emitted: string;
+  readonly truncated: boolean;
+}
+
+export function createStreamLimiter(max: number): StreamLimiter {
+  let buffer = "";
+  let emitted = "";
+  let truncated = false;
+
+  const release = (upTo: string): string => {
+    const text = upTo.slice(emitted.length);
+    emitted = upTo;
+    return text;
+  };
+
+  return {
+    push(delta: string) {
+      if (truncated) {
+        return { text: "", stop: true };
+      }
+      buffer = (buffer + delta).trimStart();
+
+      if (countGraphemes(buffer.trim()) > max) {
+        truncated = true;
+        const cut = truncateAtBoundary(buffer, max).text;
+        // O corte nunca volta antes do que já foi emitido (frases completas cabem no limite)
+        return { text: cut.startsWith(emitted) ? release(cut) : "", stop: true };
+      }
+
+      // Só frases completas: a última pode ainda estar sendo gerada
+      const sentences = splitSentences(buffer);
+      const complete = sentences.slice(0, -1).join("").trimEnd();
+      return { text: complete.length > emitted.length ? release(complete) : "", stop: false };
+    },
+    flush() {
+      if (truncated) {
+        return "";
+      }
+      return release(buffer.trimEnd());
+    },
+    get emitted() {
+      return emitted;
+    },
+    get truncated() {
+      return truncated;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { understandQuery, type QueryIntent } from "./query-understanding.ts";
+import { createRuleBasedIntentModel, createScriptedChatModel } from "./chat-model.ts";
+
+const CURRENT_DATE = new Date(2025, 3, 10); // 10/04/2025
+const rules = createRuleBasedIntentModel(CURRENT_DATE);
+
+// Modelo que repete o tipo do turno anterior, como um LLM que recebe a pergunta anterior no prompt
+const echoing = createScriptedChatModel(() =>
+  JSON.stringify({ type: "transacional", hasTemporalFilter: false, keywords: [] })
+);
+
+let previousIntent: QueryIntent;
+
+beforeAll(async () => {
+  ({ intent: previousIntent } = await understandQuery("Quanto gastei mês passado?", CURRENT_DATE, {
+    model: rules,
+  }));
+});
+
+describe("follow-ups", () => {
+  test("pergunta anterior resolvida", () => {
+    expect(previousIntent).toMatchObject({ type: "transacional", dateStart: "2025-03-01", dateEnd: "2025-03-31" });
+  });
+
+  test.each([
+    ["e no mês anterior?", "transacional", "2025-02-01", "2025-02-28"],
+    ["e no seguinte?", "transacional", "2025-04-01", "2025-04-30"],
+    ["detalha o mercado", "transacional", "2025-03-01", "2025-03-31"],
+    ["e quanto foi com uber?", "transacional", "2025-03-01", "2025-03-31"],
+    ["e em fevereiro?", "transacional", "2025-02-01", "2025-02-28"],
+  ])("%p → %s, %s a %s", async (query, type, dateStart, dateEnd) => {
+    const { intent } = await understandQuery(query, CURRENT_DATE, { model: rules, previousIntent });
+
+    expect(intent).toMatchObject({ type, hasTemporalFilter: true, dateStart, dateEnd });
+  });
+
+  test.each([
+    ["O que é Selic?", rules],
+    ["Selic?", rules],
+    ["e o que é CDI?", rules],
+    ["e o que é CDI?", echoing],
+    ["como funciona o tesouro direto?", echoing],
+  ])("%p não herda o tipo nem o período", async (query, model) => {
+    const { intent } = await understandQuery(query, CURRENT_DATE, { model, previousIntent });
+
+    if (model === rules) {
+      expect(intent.type).toBe("educacao");
+    }
+    expect(intent.hasTemporalFilter).toBe(false);
+    expect(intent.dateStart).toBeUndefined();
+  });
+
+  test("pergunta curta sem marca de follow-up não herda nada", async () => {
+    const { intent } = await understandQuery("uber", CURRENT_DATE, { model: rules, previousIntent });
+
+    expect(intent).toMatchObject({ type: "educacao", hasTemporalFilter: false });
+  });
+});
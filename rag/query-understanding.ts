@@ -1,33 +1,54 @@
 /**
  * Query Understanding Layer
  * 
- * Traduz linguagem natural em filtros SQL para LanceDB.
- * Usa Llama 3.1:8b como "tradutor" para converter expressões temporais
- * em filtros SQL concretos.
+ * Traduz linguagem natural em filtros para LanceDB.
+ * Usa um modelo de chat (padrão: Llama 3.1:8b) como "tradutor" para converter
+ * expressões temporais em filtros concretos.
  */
 
-import ollama from "ollama";
-import { parseTemporalExpression } from "./utils/temporal.ts";
+import { parseTemporalExpression, shiftDateRange } from "./utils/temporal.ts";
+import { createOllamaChatModel, type ChatModel } from "./chat-model.ts";
+import { isSpendingCategory, SPENDING_CATEGORIES, type SpendingCategory } from "./categories.ts";
+import { fallbackIntentExtraction } from "./intent-rules.ts";
+import { and, eq, inList, range, type ChunkFilter } from "./filters.ts";
+import {
+  findReplyKind,
+  getResponseProfile,
+  isReplyKind,
+  listResponseProfiles,
+  type ReplyKind,
+} from "./response-profiles.ts";
 
 /**
  * Estrutura de resposta do Query Understanding
  * O Llama 3.1:8b vai preencher isso analisando a query do usuário
  */
 export interface QueryIntent {
-  type: "transacional" | "insight" | "educacao";
+  type: ReplyKind; // Tipo de resposta; o perfil define a busca, o prompt e o tamanho (ver response-profiles.ts)
   hasTemporalFilter: boolean;
   temporalExpression?: string; // Ex: "mês passado", "carnaval", "últimos 30 dias"
   dateStart?: string; // ISO 8601: YYYY-MM-DD
   dateEnd?: string; // ISO 8601: YYYY-MM-DD
   keywords: string[]; // Palavras-chave para busca semântica
+  category?: SpendingCategory; // Categoria de gasto citada (ex: "supermercado" → "alimentacao")
 }
 
 /**
- * Filtros SQL-ready para o LanceDB
+ * Filtros tipados para o LanceDB (compilados para SQL em vector-db.ts)
  */
 export interface LanceDBFilters {
-  whereClause: string; // Ex: "type = 'transacional' AND date >= '2024-03-01' AND date <= '2024-03-31'"
+  filter: ChunkFilter; // Ex: and(eq("type", "transacional"), range("date", { gte: "2024-03-01", lte: "2024-03-31" }))
   searchKeywords: string[]; // Para busca semântica
+  narrowed: boolean; // Transações restritas por categoria, além de tipo e período
+  intent: QueryIntent; // Intenção resolvida (com dateStart/dateEnd preenchidos)
+}
+
+/**
+ * Opções do Query Understanding
+ */
+export interface UnderstandQueryOptions {
+  previousIntent?: QueryIntent; // Intenção do turno anterior da conversa
+  model?: ChatModel; // Modelo que extrai a intenção (padrão: Llama 3.1:8b via Ollama)
 }
 
 /**
@@ -37,27 +58,42 @@ export interface LanceDBFilters {
  * 1. Usuário pergunta: "Quanto gastei mês passado?"
  * 2. Llama extrai: { type: "transacional", temporalExpression: "mês passado" }
  * 3. Função converte "mês passado" em datas ISO: { dateStart: "2024-03-01", dateEnd: "2024-03-31" }
- * 4. Retorna filtros SQL: "type = 'transacional' AND date >= '2024-03-01' AND date <= '2024-03-31'"
+ * 4. Retorna o filtro tipado: and(eq("type", "transacional"), range("date", { gte: "2024-03-01", lte: "2024-03-31" }))
+ *
+ * Em conversas, a intenção do turno anterior (previousIntent) permite resolver
+ * follow-ups elípticos: "e no mês anterior?" desloca o período anterior,
+ * "detalha o mercado" herda o tipo e o período da pergunta anterior. Um
+ * follow-up com tipo próprio ("e o que é CDI?") não herda nada.
  */
 export async function understandQuery(
   userQuery: string,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  options: UnderstandQueryOptions = {}
 ): Promise<LanceDBFilters> {
+  const { previousIntent, model = createOllamaChatModel() } = options;
+
   // Passo 1: Llama extrai entidades da query
-  const intent = await extractIntent(userQuery, currentDate);
+  const extracted = await extractIntent(userQuery, currentDate, model, previousIntent);
+
+  // Passo 2: Resolve follow-ups contra a intenção do turno anterior
+  const intent = previousIntent
+    ? resolveFollowUp(extracted, userQuery, previousIntent)
+    : extracted;
   
-  // Passo 2: Converter expressões temporais em datas ISO 8601
+  // Passo 3: Converter expressões temporais em datas ISO 8601
   const filters = buildLanceDBFilters(intent, currentDate);
   
   return filters;
 }
 
 /**
- * Usa Llama 3.1:8b para extrair intenção e entidades temporais da query
+ * Usa o modelo de chat para extrair intenção e entidades temporais da query
  */
 async function extractIntent(
   query: string,
-  currentDate: Date
+  currentDate: Date,
+  model: ChatModel,
+  previousIntent?: QueryIntent
 ): Promise<QueryIntent> {
   const dateContext = currentDate.toLocaleDateString('pt-BR', {
     day: '2-digit',
@@ -66,114 +102,173 @@ async function extractIntent(
     weekday: 'long'
   });
 
+  const kinds = listResponseProfiles();
   const systemPrompt = `Você é um extrator de intenções para um sistema de finanças pessoais.
 
 Analise a query do usuário e extraia:
-1. Tipo de pergunta: "transacional" (quanto, gastos, receitas), "insight" (resumo, saúde financeira), ou "educacao" (como, o que é)
+1. Tipo de pergunta: ${kinds.map((profile) => `"${profile.kind}" (${profile.description})`).join(", ")}
 2. Se há referência temporal (mês passado, carnaval, última semana, etc.)
 3. Palavras-chave relevantes para busca semântica
+4. Categoria de gasto, APENAS se a pergunta citar uma (ex: "supermercado" → "alimentacao", "uber" → "transporte"): ${SPENDING_CATEGORIES.join(", ")}
 
 DATA ATUAL: ${dateContext}
-
+${previousIntent ? `
+PERGUNTA ANTERIOR DA CONVERSA (use para resolver perguntas incompletas como "e no mês anterior?"):
+${JSON.stringify(previousIntent)}
+` : ""}
 Responda APENAS em JSON válido, sem markdown, sem explicações:
 {
-  "type": "transacional" | "insight" | "educacao",
+  "type": ${kinds.map((profile) => `"${profile.kind}"`).join(" | ")},
   "hasTemporalFilter": boolean,
-  "temporalExpression": "string opcional (ex: 'mês passado', 'carnaval', 'últimos 30 dias')",
-  "keywords": ["palavra1", "palavra2"]
+  "temporalExpression": "string opcional, copiada da pergunta (ex: 'mês passado', 'carnaval', 'últimos 30 dias', 'semana passada', 'primeiro semestre', 'de 10/03 a 20/04', 'em 2023')",
+  "keywords": ["palavra1", "palavra2"],
+  "category": "categoria opcional"
 }`;
 
   try {
-    const response = await ollama.chat({
-      model: "llama3.1:8b",
+    const content = await model.chat({
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: query }
       ],
-      format: "json", // Força resposta em JSON
-      options: {
-        temperature: 0.1, // Baixa temperatura para respostas mais determinísticas
-      }
+      json: true, // Força resposta em JSON
+      temperature: 0.1, // Baixa temperatura para respostas mais determinísticas
     });
-
-    const content = response.message.content;
     
     // Parse do JSON (pode vir com markdown code blocks)
     const jsonMatch = content.match(/\{[\s\S]*\}/);
     const jsonStr = jsonMatch ? jsonMatch[0] : content;
-    const intent = JSON.parse(jsonStr) as QueryIntent;
+    // Datas são sempre calculadas localmente a partir da expressão temporal
+    const { dateStart, dateEnd, ...intent } = JSON.parse(jsonStr) as QueryIntent;
+
+    // Tipo fora da lista conhecida: a resposta não é confiável, usa o fallback
+    if (!isReplyKind(intent.type)) {
+      throw new Error(`Tipo de pergunta inválido: ${String(intent.type)}`);
+    }
+    if (!Array.isArray(intent.keywords)) {
+      intent.keywords = [];
+    }
+
+    // Categorias fora da lista conhecida são descartadas
+    if (!isSpendingCategory(intent.category)) {
+      delete intent.category;
+    }
 
     return intent;
   } catch (error) {
     console.error("Erro ao extrair intenção:", error);
     // Fallback: análise básica sem LLM
-    return fallbackIntentExtraction(query);
+    return fallbackIntentExtraction(query, currentDate);
+  }
+}
+
+/**
+ * Resolve perguntas de follow-up usando a intenção do turno anterior
+ *
+ * - "e no mês anterior?" / "e no seguinte?" → desloca o período anterior
+ * - Follow-up sem período ("detalha o mercado") → herda tipo e período
+ *
+ * Tipo e período só são herdados quando a pergunta não indica outro tipo
+ * (ver findReplyKind): o modelo de intenção recebe o turno anterior e tende a
+ * repetir o tipo dele mesmo em "e o que é CDI?".
+ */
+function resolveFollowUp(
+  intent: QueryIntent,
+  query: string,
+  previousIntent: QueryIntent
+): QueryIntent {
+  const lower = query.toLowerCase().trim();
+  const previousRange = previousIntent.dateStart && previousIntent.dateEnd
+    ? { start: previousIntent.dateStart, end: previousIntent.dateEnd }
+    : null;
+
+  if (!isFollowUp(lower)) {
+    return intent;
+  }
+
+  const shiftDirection = /\b(anterior|antes disso)\b/.test(lower)
+    ? -1
+    : /\b(seguinte|posterior|depois disso)\b/.test(lower)
+      ? 1
+      : 0;
+
+  const ownKind = findReplyKind(query);
+  const inherits = ownKind === null || ownKind === previousIntent.type;
+  const resolved: QueryIntent = inherits ? { ...intent, type: previousIntent.type } : intent;
+
+  if (previousRange && shiftDirection !== 0) {
+    const shifted = shiftDateRange(previousRange.start, previousRange.end, shiftDirection);
+    return {
+      ...resolved,
+      hasTemporalFilter: true,
+      temporalExpression: undefined,
+      dateStart: shifted.start,
+      dateEnd: shifted.end,
+    };
+  }
+
+  if (previousRange && !intent.hasTemporalFilter && inherits) {
+    return {
+      ...resolved,
+      hasTemporalFilter: true,
+      temporalExpression: previousIntent.temporalExpression,
+      dateStart: previousRange.start,
+      dateEnd: previousRange.end,
+      keywords: [...new Set([...intent.keywords, ...previousIntent.keywords])],
+    };
   }
+
+  return resolved;
 }
 
 /**
- * Converte expressões temporais em datas ISO 8601 e constrói filtros SQL
+ * Detecta perguntas elípticas que só fazem sentido com o turno anterior
+ */
+function isFollowUp(lowerQuery: string): boolean {
+  if (/^(e|mas|e quanto|e no|e na|e em|e o|e a|e os|e as)\b/.test(lowerQuery)) {
+    return true;
+  }
+  return /^(detalh|explica|mostra|e sobre|quais foram)/.test(lowerQuery);
+}
+
+/**
+ * Converte expressões temporais em datas ISO 8601 e constrói o filtro tipado
  */
 function buildLanceDBFilters(
   intent: QueryIntent,
   currentDate: Date
 ): LanceDBFilters {
-  const filters: string[] = [];
-  
-  // Filtro por tipo
-  filters.push(`type = '${intent.type}'`);
+  const resolvedIntent: QueryIntent = { ...intent };
   
   // Filtro temporal (se houver)
-  if (intent.hasTemporalFilter && intent.temporalExpression) {
+  // Datas já resolvidas (ex: herdadas do turno anterior) têm precedência sobre a expressão
+  if (intent.hasTemporalFilter && !(intent.dateStart && intent.dateEnd) && intent.temporalExpression) {
     const dateRange = parseTemporalExpression(intent.temporalExpression, currentDate);
     
     if (dateRange.start && dateRange.end) {
-      filters.push(`date >= '${dateRange.start}'`);
-      filters.push(`date <= '${dateRange.end}'`);
+      resolvedIntent.dateStart = dateRange.start;
+      resolvedIntent.dateEnd = dateRange.end;
     }
   }
-  
-  const whereClause = filters.join(" AND ");
-  
-  return {
-    whereClause,
-    searchKeywords: intent.keywords
-  };
-}
-
-/**
- * Fallback: extração básica sem LLM (caso o Llama falhe)
- */
-function fallbackIntentExtraction(query: string): QueryIntent {
-  const lower = query.toLowerCase();
-  
-  let type: "transacional" | "insight" | "educacao" = "educacao";
-  if (lower.includes("quanto") || lower.includes("gastei") || lower.includes("recebi") || lower.includes("pagarei")) {
-    type = "transacional";
-  } else if (lower.includes("resumo") || lower.includes("saúde financeira") || lower.includes("como está")) {
-    type = "insight";
-  }
 
-  const hasTemporal = /mês|mes|semana|dia|abril|março|fevereiro|janeiro|carnaval|último|ultimo/.test(lower);
-  
-  // Tentar extrair expressão temporal
-  let temporalExpression: string | undefined;
-  if (hasTemporal) {
-    if (lower.includes("mês passado") || lower.includes("mes passado")) {
-      temporalExpression = "mês passado";
-    } else if (lower.includes("últimos") || lower.includes("ultimos")) {
-      const daysMatch = lower.match(/últimos?\s+(\d+)\s+dia/i) || lower.match(/ultimos?\s+(\d+)\s+dia/i);
-      if (daysMatch) {
-        temporalExpression = `últimos ${daysMatch[1]} dias`;
-      }
-    }
-  }
+  const { chunkTypes } = getResponseProfile(intent.type);
+  // Filtro por categoria (só transações têm categoria)
+  const categoryFilter = chunkTypes.every((type) => type === "transacional") && intent.category
+    ? eq("category", intent.category)
+    : undefined;
+  const filter = and(
+    // Filtro pelos tipos de chunk do perfil de resposta
+    chunkTypes.length === 1 && chunkTypes[0] ? eq("type", chunkTypes[0]) : inList("type", chunkTypes),
+    categoryFilter,
+    intent.hasTemporalFilter && resolvedIntent.dateStart && resolvedIntent.dateEnd
+      ? range("date", { gte: resolvedIntent.dateStart, lte: resolvedIntent.dateEnd })
+      : undefined
+  );
   
   return {
-    type,
-    hasTemporalFilter: hasTemporal,
-    temporalExpression,
-    keywords: query.split(/\s+/).filter(w => w.length > 3)
+    filter,
+    searchKeywords: intent.keywords,
+    narrowed: categoryFilter !== undefined,
+    intent: resolvedIntent,
   };
 }
-
@@ -1,90 +1,107 @@
 /**
  * Chat principal com RAG
  * 
- * Integra pipeline RAG com lógica de tipos de resposta
- * (transacional/insight/educação) do sistema existente
+ * Integra pipeline RAG com o histórico da conversa. O tipo de resposta
+ * (transacional/insight/educação/...) e o tamanho vêm do pipeline
+ * (ver response-profiles.ts)
  */
 
-import { ragChat, type RAGResult } from "./rag-pipeline.ts";
-
-type ReplyKind = "transacional" | "insight" | "educacao";
-
-/**
- * Determina tipo de resposta e limites de caracteres baseado na query
- * Reutiliza lógica do gemini-chat.ts
- */
-function chooseTarget(q: string): { kind: ReplyKind; max: number; min: number } {
-  const lower = q.toLowerCase();
-  if (lower.includes("quanto") || lower.includes("gastei") || lower.includes("pagarei")) {
-    return { kind: "transacional", min: 0, max: 140 };
-  }
-  if (lower.includes("como está") || lower.includes("saúde financeira") || lower.includes("resumo")) {
-    return { kind: "insight", min: 250, max: 500 };
-  }
-  return { kind: "educacao", min: 200, max: 500 }; // padrão da sua faixa desejada
-}
-
-/**
- * Ajusta texto para ficar dentro do range de caracteres
- * Reutiliza lógica do gemini-chat.ts
- */
-function trimToRange(text: string, min: number, max: number): string {
-  const clean = text.trim();
-  if (clean.length > max) return clean.slice(0, max).trimEnd();
-  if (clean.length < min) return clean; // confia no modelo para completar no próximo turno
-  return clean;
-}
+import { ragChat, ragChatStream, type RAGOptions, type RAGResult, type RAGStreamEvent } from "./rag-pipeline.ts";
+import type { UserScope } from "./vector-db.ts";
+import { recordExchange } from "./conversation.ts";
 
 /**
  * Chat com RAG integrado
  * 
+ * @param user Usuário dono dos dados consultados
  * @param userMessage Mensagem do usuário
  * @param currentDate Data atual (padrão: new Date())
+ * @param options Opções do pipeline (com options.conversation, a troca é registrada no histórico)
  * @returns Resposta do chat com RAG aplicado
  */
 export async function chat(
+  user: UserScope,
   userMessage: string,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  options: RAGOptions = {}
 ): Promise<string> {
-  // Determina tipo de resposta e limites
-  const { min, max, kind } = chooseTarget(userMessage);
-
-  // Executa pipeline RAG
-  const ragResult: RAGResult = await ragChat(userMessage, currentDate);
+  // Executa pipeline RAG (a resposta já vem ajustada ao range de caracteres do tipo)
+  const ragResult: RAGResult = await ragChat(user, userMessage, currentDate, options);
 
-  // Ajusta resposta para ficar dentro do range de caracteres
-  const trimmedResponse = trimToRange(ragResult.response, min, max);
+  // Registra a troca para os próximos turnos
+  if (options.conversation) {
+    recordExchange(options.conversation, userMessage, ragResult.response, ragResult.metadata.intent);
+  }
 
-  return trimmedResponse;
+  return ragResult.response;
 }
 
 /**
  * Chat com RAG retornando metadados completos
  * 
+ * @param user Usuário dono dos dados consultados
  * @param userMessage Mensagem do usuário
  * @param currentDate Data atual (padrão: new Date())
+ * @param options Opções do pipeline (com options.conversation, a troca é registrada no histórico)
  * @returns Resultado completo com resposta e metadados
  */
 export async function chatWithMetadata(
+  user: UserScope,
   userMessage: string,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  options: RAGOptions = {}
 ): Promise<{
   response: string;
+  citations: RAGResult["citations"];
   metadata: RAGResult["metadata"] & {
     chunksUsed: RAGResult["chunksUsed"];
     characterRange: { min: number; max: number };
   };
 }> {
-  const { min, max, kind } = chooseTarget(userMessage);
-  const ragResult = await ragChat(userMessage, currentDate);
-  const trimmedResponse = trimToRange(ragResult.response, min, max);
+  const ragResult = await ragChat(user, userMessage, currentDate, options);
+
+  if (options.conversation) {
+    recordExchange(options.conversation, userMessage, ragResult.response, ragResult.metadata.intent);
+  }
 
   return {
-    response: trimmedResponse,
+    response: ragResult.response,
+    citations: ragResult.citations,
     metadata: {
       ...ragResult.metadata,
       chunksUsed: ragResult.chunksUsed,
-      characterRange: { min, max },
+      characterRange: ragResult.metadata.length.budget,
     },
   };
 }
+
+/**
+ * Chat com RAG em streaming
+ *
+ * Emite os metadados da busca primeiro e depois a resposta em deltas. O
+ * limite de caracteres do tipo de resposta é aplicado durante a geração
+ * (ver ragChatStream), em vez de gerar tudo e cortar.
+ *
+ * @param user Usuário dono dos dados consultados
+ * @param userMessage Mensagem do usuário
+ * @param currentDate Data atual (padrão: new Date())
+ * @param options Opções do pipeline (com options.conversation, a troca é registrada no histórico)
+ */
+export async function* chatStream(
+  user: UserScope,
+  userMessage: string,
+  currentDate: Date = new Date(),
+  options: RAGOptions = {}
+): AsyncGenerator<RAGStreamEvent> {
+  let intent: RAGResult["metadata"]["intent"] | undefined;
+
+  for await (const event of ragChatStream(user, userMessage, currentDate, options)) {
+    if (event.type === "metadata") {
+      intent = event.metadata.intent;
+    }
+    if (event.type === "done" && options.conversation && intent) {
+      recordExchange(options.conversation, userMessage, event.response, intent);
+    }
+    yield event;
+  }
+}
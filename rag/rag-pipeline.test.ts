@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ragChat } from "./rag-pipeline.ts";
+import { createHashingEmbedder, setEmbeddingProvider } from "./embeddings.ts";
+import { closeLanceDB, initLanceDB, type UserScope } from "./vector-db.ts";
+import { importOFX } from "./ingestion/ofx.ts";
+import { createChatModel, createExtractiveAnswerModel, createRuleBasedIntentModel } from "./chat-model.ts";
+
+const USER: UserScope = { userId: "pipeline-test" };
+const CURRENT_DATE = new Date(2025, 3, 10); // 10/04/2025
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>BRL
+<BANKACCTFROM><BANKID>0341<ACCTID>12345-6<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250304<TRNAMT>-45.90<FITID>A1<MEMO>IFOOD *RESTAURANTE</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250312<TRNAMT>-23.50<FITID>A2<MEMO>UBER *TRIP</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250305<TRNAMT>3200.00<FITID>A3<NAME>SALARIO</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250220<TRNAMT>-99.00<FITID>A4<MEMO>FARMACIA</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+let dbPath: string;
+
+beforeAll(async () => {
+  setEmbeddingProvider(createHashingEmbedder());
+  dbPath = await mkdtemp(join(tmpdir(), "rag-pipeline-test-"));
+  await initLanceDB(dbPath);
+  await importOFX(USER, OFX);
+});
+
+afterAll(async () => {
+  await closeLanceDB();
+  await rm(dbPath, { recursive: true, force: true });
+});
+
+describe("ragChat com transações importadas de OFX", () => {
+  const models = {
+    intent: createRuleBasedIntentModel(CURRENT_DATE),
+    answer: createExtractiveAnswerModel(),
+  };
+
+  test("pergunta por categoria usa todas as transações da categoria no período", async () => {
+    const result = await ragChat(USER, "Quanto gastei com uber mês passado?", CURRENT_DATE, { models });
+
+    expect(result.chunksUsed.map((chunk) => chunk.id)).toEqual(["ofx-12345-6-a2"]);
+    expect(result.metadata.rerank.dropped).toEqual([]);
+  });
+
+  test("sem filtro de categoria, transações sem relação com a pergunta são descartadas", async () => {
+    const result = await ragChat(USER, "Quanto custou a trip mês passado?", CURRENT_DATE, { models });
+
+    expect(result.chunksUsed[0]?.id).toBe("ofx-12345-6-a2");
+    expect(result.metadata.rerank.dropped.map((chunk) => chunk.id)).toEqual(["ofx-12345-6-a1"]);
+    // Os totais continuam calculados sobre todo o período
+    expect(result.metadata.aggregation?.count).toBe(2);
+  });
+
+  test("pergunta com mês explícito", async () => {
+    const result = await ragChat(USER, "Quanto gastei em fevereiro?", CURRENT_DATE, { models });
+
+    expect(result.chunksUsed.map((chunk) => chunk.id)).toEqual(["ofx-12345-6-a4"]);
+  });
+});
+
+describe("ragChat offline com o provedor mock", () => {
+  const models = { intent: createChatModel("mock"), answer: createChatModel("mock") };
+
+  test("responde com o total dos gastos e cita as transações", async () => {
+    const result = await ragChat(USER, "Quanto gastei mês passado?", CURRENT_DATE, { models });
+
+    expect(result.metadata.intent.type).toBe("transacional");
+    expect(result.response).toContain("Total: R$ 69.40");
+    expect(result.response).toMatch(/IFOOD[^[]*\[\d\]/);
+  });
+
+  test("pergunta conceitual sem contexto não inventa resposta", async () => {
+    const result = await ragChat(USER, "O que é Selic?", CURRENT_DATE, { models });
+
+    expect(result.metadata.intent.type).toBe("educacao");
+    expect(result.response).toContain("Não tenho informações suficientes");
+  });
+});
@@ -4,16 +4,55 @@
  * Orquestra todo o fluxo:
  * 1. Query Understanding (extrai intenção e filtros temporais)
  * 2. Gera embedding da query
- * 3. Busca no LanceDB com pre-filtering
- * 4. Constrói contexto com top-k chunks
+ * 3. Busca no LanceDB com pre-filtering (híbrida: palavras-chave + vetorial)
+ *    e reranking dos candidatos, descartando os irrelevantes
+ * 4. Constrói contexto com top-k chunks (e totais calculados, para perguntas transacionais)
  * 5. Gera resposta com Llama 3.1:8b incluindo contexto e data atual
+ * 6. Ajusta a resposta ao orçamento de caracteres
+ * 7. Confere as citações [N] contra os chunks usados
+ * 8. Confere valores em R$ e datas contra os chunks e os totais (ver grounding.ts)
+ *
+ * Toda chamada tem um usuário (UserScope): busca e totais só veem os chunks
+ * dele (ver vector-db.ts).
+ *
+ * Guardrails (ver guardrails.ts) recusam perguntas ilícitas ou fora do tema
+ * antes do passo 1 e cortam recomendações de investimento da resposta.
+ *
+ * O tipo de resposta vem de understandQuery; o perfil correspondente
+ * (ver response-profiles.ts) define a busca, o prompt e o tamanho.
+ *
+ * Os modelos de cada etapa são configuráveis (ver chat-model.ts).
  */
 
-import ollama from "ollama";
-import { understandQuery, type LanceDBFilters } from "./query-understanding.ts";
-import { generateEmbedding } from "./embeddings.ts";
-import { searchChunks, type SearchResult } from "./vector-db.ts";
+import { understandQuery, type LanceDBFilters, type QueryIntent } from "./query-understanding.ts";
+import { generateEmbedding, getEmbeddingProvider, type EmbeddingProvider } from "./embeddings.ts";
+import { hybridSearchChunks, searchChunks, validateUserScope, type SearchResult, type UserScope } from "./vector-db.ts";
 import { toISO8601 } from "./utils/temporal.ts";
+import { getHistory, getLastIntent, type Conversation } from "./conversation.ts";
+import { resolveModels, type ChatMessage, type ChatModel, type PipelineModels } from "./chat-model.ts";
+import { aggregateByFilter, type TransactionAggregate } from "./aggregation.ts";
+import { createLexicalReranker, DEFAULT_RELEVANCE_THRESHOLD, rerankChunks, type Reranker } from "./reranker.ts";
+import {
+  buildContinuationMessages,
+  countGraphemes,
+  createStreamLimiter,
+  fitToBudget,
+  type LengthBudget,
+} from "./length-control.ts";
+import { DEFAULT_REPLY_KIND, getResponseProfile, type ReplyKind, type ResponseProfile } from "./response-profiles.ts";
+import { checkInput, REFUSALS, screenOutput, type GuardrailDecision } from "./guardrails.ts";
+import { extractCitations, type Citation } from "./citations.ts";
+import {
+  buildCorrectionMessages,
+  createGroundingReport,
+  DEFAULT_GROUNDING_MODE,
+  verifyGrounding,
+  type GroundedFigure,
+  type GroundingMode,
+  type GroundingReport,
+  type GroundingSources,
+} from "./grounding.ts";
+import { and, type ChunkFilter } from "./filters.ts";
 
 /**
  * Resultado do pipeline RAG
@@ -21,56 +60,425 @@ import { toISO8601 } from "./utils/temporal.ts";
 export interface RAGResult {
   response: string;
   chunksUsed: SearchResult[];
+  citations: Citation[]; // Chunks citados na resposta como [N]
   metadata: {
-    queryType: "transacional" | "insight" | "educacao";
+    queryType: ReplyKind; // Tipo de resposta classificado em understandQuery
     chunksFound: number;
+    intent: QueryIntent; // Intenção resolvida (útil para o próximo turno da conversa)
+    filter: ChunkFilter; // Filtro aplicado na busca (ver compileFilter)
+    aggregation?: TransactionAggregate; // Totais calculados (apenas perguntas transacionais)
+    rerank: {
+      reranker: string;
+      threshold: number;
+      candidates: number; // Resultados da busca antes do reranking
+      dropped: SearchResult[]; // Candidatos abaixo do limiar (com _relevance)
+    };
+    length: { budget: LengthBudget; truncated: boolean; continued: boolean };
+    guardrails: GuardrailDecision[]; // Decisões de entrada e saída, na ordem
+    invalidCitations: number[]; // Citações sem chunk correspondente (removidas da resposta)
+    grounding: GroundingReport; // Valores e datas da resposta conferidos contra chunks e totais
   };
 }
 
+/**
+ * Opções do pipeline RAG
+ */
+export interface RAGOptions {
+  /**
+   * Conversa em andamento: o histórico é enviado ao modelo e a intenção
+   * anterior é usada para resolver follow-ups. O pipeline apenas lê a
+   * conversa; quem chama registra a troca (ver recordExchange).
+   */
+  conversation?: Conversation;
+  /** Modelos por etapa; etapas omitidas usam getDefaultModels() */
+  models?: Partial<PipelineModels>;
+  /** Provedor de embeddings da query (padrão: provedor ativo) */
+  embedder?: EmbeddingProvider;
+  /** Modo de busca: "hybrid" (BM25 + vetorial, padrão) ou "vector" */
+  retrieval?: "hybrid" | "vector";
+  /** Reranker dos candidatos (padrão: lexical; ver createLLMReranker) */
+  reranker?: Reranker;
+  /** Relevância mínima para um chunk entrar no contexto (padrão: DEFAULT_RELEVANCE_THRESHOLD) */
+  relevanceThreshold?: number;
+  /** Orçamento de caracteres da resposta (padrão: o do perfil do tipo de resposta) */
+  lengthBudget?: LengthBudget;
+  /** Tratamento de valores/datas sem origem: "flag", "retry" (padrão) ou "replace" */
+  grounding?: GroundingMode;
+}
+
+export const TOP_K = 5;
+const CANDIDATE_K = 15; // Candidatos buscados para o reranking
+
+/**
+ * Evento do pipeline em streaming
+ * - metadata: emitido primeiro, antes da geração (busca, intenção, totais)
+ * - delta: pedaço de texto da resposta
+ * - done: resposta completa (truncated indica corte pelo orçamento de caracteres;
+ *   guardrail é a decisão sobre a resposta, tomada durante a geração;
+ *   citations são os chunks citados como [N]; grounding confere valores e datas)
+ */
+export type RAGStreamEvent =
+  | { type: "metadata"; chunksUsed: SearchResult[]; metadata: RAGResult["metadata"] }
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      response: string;
+      truncated: boolean;
+      guardrail: GuardrailDecision;
+      citations: Citation[];
+      grounding: GroundingReport;
+    };
+
+/**
+ * Tudo o que antecede a geração da resposta
+ */
+interface PreparedRAG {
+  chunksUsed: SearchResult[];
+  metadata: Omit<RAGResult["metadata"], "length" | "guardrails" | "invalidCitations" | "grounding">;
+  budget: LengthBudget;
+  groundingSources: GroundingSources;
+  answerModel: ChatModel;
+  messages: ChatMessage[];
+}
+
 /**
  * Pipeline RAG principal
+ * @param user Usuário dono dos dados consultados
  * @param userQuery Query do usuário
  * @param currentDate Data atual (padrão: new Date())
+ * @param options Opções do pipeline (ex: conversa em andamento)
  * @returns Resposta gerada pelo Llama com contexto RAG
  */
 export async function ragChat(
+  user: UserScope,
   userQuery: string,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  options: RAGOptions = {}
 ): Promise<RAGResult> {
-  // Passo 1: Query Understanding
-  const filters: LanceDBFilters = await understandQuery(userQuery, currentDate);
+  validateUserScope(user);
+
+  // Guardrail de entrada: recusa sem buscar nem chamar o modelo
+  const input = checkInput(userQuery);
+  if (input.action === "block") {
+    return refusalResult(input, options);
+  }
+
+  const prepared = await prepareRAG(user, userQuery, currentDate, options);
+
+  const { grounding: mode = DEFAULT_GROUNDING_MODE } = options;
+
+  // Passo 5: Gera resposta com o modelo de resposta (padrão: Llama 3.1:8b)
+  let response = await generateResponse(prepared.answerModel, prepared.messages);
+
+  // Passo 5b: Valores/datas sem origem → uma nova tentativa com prompt de correção
+  let retried = false;
+  if (mode === "retry") {
+    const { report } = verifyGrounding(response, prepared.groundingSources, { mode });
+    if (report.ungrounded > 0) {
+      response = await retryWithCorrection(prepared, response, report.figures);
+      retried = true;
+    }
+  }
+
+  // Passo 6: Ajusta ao orçamento (corta em fronteira de frase ou pede continuação)
+  const fitted = await fitToBudget(response, prepared.budget, {
+    model: prepared.answerModel,
+    messages: prepared.messages,
+  });
+
+  // Passo 7: Confere as citações e aplica o guardrail de saída (recomendações de investimento)
+  const cited = extractCitations(fitted.text, prepared.chunksUsed);
+  const screening = screenOutput(cited.text);
+
+  // Passo 8: Relatório de grounding do texto final (no modo "replace", substitui o que não tem origem)
+  const grounded = verifyGrounding(screening.text, prepared.groundingSources, { mode, retried });
+
+  return {
+    response: grounded.text,
+    chunksUsed: prepared.chunksUsed,
+    citations: extractCitations(grounded.text, prepared.chunksUsed).citations, // Só as que sobraram após o guardrail
+    metadata: {
+      ...prepared.metadata,
+      length: { budget: prepared.budget, truncated: fitted.truncated, continued: fitted.continued },
+      guardrails: [input, screening.decision],
+      invalidCitations: cited.invalid,
+      grounding: grounded.report,
+    },
+  };
+}
+
+/**
+ * Pipeline RAG em streaming
+ *
+ * Mesmas etapas de ragChat; os metadados da busca saem no primeiro evento e
+ * a resposta chega em deltas à medida que o modelo gera. Só frases completas
+ * são emitidas: ao passar do máximo do orçamento a geração é interrompida na
+ * última fronteira de frase e, abaixo do mínimo, uma continuação é gerada no
+ * mesmo stream. Cada frase tem as citações inválidas removidas, os valores e
+ * datas conferidos e passa pelo guardrail de saída antes de ser emitida. Como
+ * o texto já foi entregue, o modo "retry" de grounding equivale a "flag". Interromper a iteração cancela a geração.
+ * @param user Usuário dono dos dados consultados
+ * @param userQuery Query do usuário
+ * @param currentDate Data atual (padrão: new Date())
+ * @param options Opções do pipeline (ex: conversa em andamento)
+ */
+export async function* ragChatStream(
+  user: UserScope,
+  userQuery: string,
+  currentDate: Date = new Date(),
+  options: RAGOptions = {}
+): AsyncGenerator<RAGStreamEvent> {
+  validateUserScope(user);
+
+  const input = checkInput(userQuery);
+  if (input.action === "block") {
+    const refused = refusalResult(input, options);
+    yield { type: "metadata", chunksUsed: [], metadata: refused.metadata };
+    yield { type: "delta", text: refused.response };
+    yield {
+      type: "done",
+      response: refused.response,
+      truncated: false,
+      guardrail: input,
+      citations: [],
+      grounding: refused.metadata.grounding,
+    };
+    return;
+  }
+
+  const { grounding: mode = DEFAULT_GROUNDING_MODE } = options;
+  const prepared = await prepareRAG(user, userQuery, currentDate, options);
+  const { budget } = prepared;
+  yield {
+    type: "metadata",
+    chunksUsed: prepared.chunksUsed,
+    metadata: {
+      ...prepared.metadata,
+      length: { budget, truncated: false, continued: false },
+      guardrails: [input],
+      invalidCitations: [],
+      grounding: createGroundingReport([], mode),
+    },
+  };
+
+  let response = ""; // Texto já entregue
+  let output: GuardrailDecision = { stage: "output", action: "allow" };
+  const figures: GroundedFigure[] = [];
+
+  // Citações inválidas removidas e guardrail de saída: devolve o que pode ser emitido do trecho liberado
+  const screen = (released: string): string => {
+    const cited = extractCitations(released, prepared.chunksUsed);
+    const grounded = verifyGrounding(cited.text, prepared.groundingSources, { mode });
+    figures.push(...grounded.report.figures);
+    const text = grounded.text;
+    const screening = screenOutput(response + text);
+    if (screening.decision.action === "allow") {
+      response += text;
+      return text;
+    }
+    output = screening.decision;
+    const refusal = screening.text.slice(screening.safe.length).trim();
+    const safe = screening.safe.length > response.length ? screening.safe : response.trimEnd();
+    const next = safe ? `${safe} ${refusal}` : refusal;
+    const addition = next.slice(response.length);
+    response = next;
+    return addition;
+  };
+
+  const limiter = createStreamLimiter(budget.max);
+  let messages = prepared.messages;
+  for (let attempt = 0; attempt < 2 && output.action === "allow"; attempt++) {
+    if (attempt > 0) {
+      // Abaixo do mínimo: pede continuação (ou regera, se nada foi gerado)
+      if (limiter.truncated || countGraphemes(limiter.emitted) >= budget.min) {
+        break;
+      }
+      if (limiter.emitted) {
+        messages = buildContinuationMessages(prepared.messages, limiter.emitted, budget);
+        limiter.push(" ");
+      }
+    }
+
+    for await (const delta of streamResponse(prepared.answerModel, messages)) {
+      const { text, stop } = limiter.push(delta);
+      if (text) {
+        yield { type: "delta", text: screen(text) };
+      }
+      if (stop || output.action !== "allow") {
+        break; // Encerra a iteração, o que cancela a geração no provedor
+      }
+    }
+    const rest = output.action === "allow" ? limiter.flush() : "";
+    if (rest) {
+      yield { type: "delta", text: screen(rest) };
+    }
+  }
+
+  const final = response.trim();
+  yield {
+    type: "done",
+    response: final,
+    truncated: limiter.truncated,
+    guardrail: output,
+    citations: extractCitations(final, prepared.chunksUsed).citations,
+    grounding: createGroundingReport(figures, mode),
+  };
+}
+
+/**
+ * Resultado de uma pergunta recusada pelo guardrail de entrada
+ */
+function refusalResult(decision: GuardrailDecision, options: RAGOptions): RAGResult {
+  const profile = getResponseProfile(DEFAULT_REPLY_KIND);
+  return {
+    response: REFUSALS[decision.category ?? "off_topic"],
+    chunksUsed: [],
+    citations: [],
+    metadata: {
+      queryType: profile.kind,
+      chunksFound: 0,
+      intent: { type: profile.kind, hasTemporalFilter: false, keywords: [] },
+      filter: and(),
+      rerank: {
+        reranker: "none",
+        threshold: options.relevanceThreshold ?? DEFAULT_RELEVANCE_THRESHOLD,
+        candidates: 0,
+        dropped: [],
+      },
+      length: { budget: options.lengthBudget ?? profile.length, truncated: false, continued: false },
+      guardrails: [decision],
+      invalidCitations: [],
+      grounding: createGroundingReport([], options.grounding ?? DEFAULT_GROUNDING_MODE),
+    },
+  };
+}
+
+/**
+ * Regera a resposta pedindo para corrigir valores/datas sem origem
+ * Se a correção falhar ou não melhorar, mantém a resposta original
+ */
+async function retryWithCorrection(
+  prepared: PreparedRAG,
+  response: string,
+  figures: GroundedFigure[]
+): Promise<string> {
+  try {
+    const corrected = await generateResponse(
+      prepared.answerModel,
+      buildCorrectionMessages(prepared.messages, response, figures)
+    );
+    const before = figures.filter((figure) => !figure.grounded).length;
+    const after = verifyGrounding(corrected, prepared.groundingSources).report.ungrounded;
+    return corrected && after < before ? corrected : response;
+  } catch (error) {
+    console.error("Erro ao corrigir valores da resposta:", error);
+    return response;
+  }
+}
+
+/**
+ * Passos 1 a 4: intenção, embedding, busca, reranking e contexto
+ */
+async function prepareRAG(
+  user: UserScope,
+  userQuery: string,
+  currentDate: Date,
+  options: RAGOptions
+): Promise<PreparedRAG> {
+  const {
+    conversation,
+    retrieval = "hybrid",
+    reranker = createLexicalReranker(),
+    relevanceThreshold = DEFAULT_RELEVANCE_THRESHOLD,
+  } = options;
+  const models = resolveModels(options.models);
+  const embedder = options.embedder ?? getEmbeddingProvider();
+
+  // Passo 1: Query Understanding (com a intenção do turno anterior, se houver)
+  const previousIntent = conversation ? getLastIntent(conversation) : undefined;
+  const filters: LanceDBFilters = await understandQuery(userQuery, currentDate, {
+    previousIntent,
+    model: models.intent,
+  });
+  const profile = getResponseProfile(filters.intent.type);
+  const budget = options.lengthBudget ?? profile.length;
 
   // Passo 2: Gera embedding da query
-  const queryEmbedding = await generateEmbedding(userQuery);
+  const queryEmbedding = await generateEmbedding(userQuery, embedder);
 
   // Passo 3: Busca no LanceDB com pre-filtering
-  const chunks = await searchChunks(
-    queryEmbedding,
-    filters.whereClause,
-    5 // top-k
-  );
+  // Na busca híbrida, as palavras-chave recuperam nomes exatos (ex: "iFood")
+  const candidates = retrieval === "hybrid"
+    ? await hybridSearchChunks(
+        user,
+        queryEmbedding,
+        filters.searchKeywords,
+        filters.filter,
+        CANDIDATE_K,
+        { embeddingModel: embedder.model }
+      )
+    : await searchChunks(
+        user,
+        queryEmbedding,
+        filters.filter,
+        CANDIDATE_K,
+        { embeddingModel: embedder.model }
+      );
+
+  // Passo 3b: Reranking - mantém os top-k acima do limiar de relevância
+  const { kept: chunks, dropped } = await rerankChunks(userQuery, candidates, {
+    reranker,
+    threshold: relevanceThreshold,
+    limit: TOP_K,
+    narrowed: filters.narrowed,
+  });
 
   // Passo 4: Constrói contexto
-  const contextualQuery = buildContextualQuery(userQuery, chunks);
+  // Perguntas transacionais (perfis com aggregate) recebem totais calculados sobre TODO o período filtrado,
+  // não só sobre os top-k chunks
+  const aggregation = profile.aggregate
+    ? await aggregateByFilter(user, filters.filter)
+    : undefined;
+  const contextualQuery = buildContextualQuery(userQuery, chunks, aggregation);
 
-  // Passo 5: Gera resposta com Llama 3.1:8b
-  const systemPrompt = buildSystemPrompt(currentDate);
-  const response = await generateResponse(systemPrompt, contextualQuery);
+  // O histórico da conversa vai entre o system prompt e a pergunta atual
+  const history = conversation ? getHistory(conversation) : [];
+  const messages: ChatMessage[] = [
+    { role: "system", content: buildSystemPrompt(currentDate, profile, budget) },
+    ...history,
+    { role: "user", content: contextualQuery },
+  ];
 
   return {
-    response,
     chunksUsed: chunks,
     metadata: {
-      queryType: extractQueryType(filters.whereClause),
+      queryType: profile.kind,
       chunksFound: chunks.length,
+      intent: filters.intent,
+      filter: filters.filter,
+      aggregation,
+      rerank: {
+        reranker: reranker.name,
+        threshold: relevanceThreshold,
+        candidates: candidates.length,
+        dropped,
+      },
+    },
+    budget,
+    groundingSources: {
+      chunks,
+      aggregation,
+      dates: [filters.intent.dateStart, filters.intent.dateEnd, toISO8601(currentDate)],
     },
+    answerModel: models.answer,
+    messages,
   };
 }
 
 /**
- * Constrói system prompt com data atual dinamicamente
+ * Constrói system prompt com data atual e instruções do perfil de resposta
  */
-function buildSystemPrompt(currentDate: Date): string {
+function buildSystemPrompt(currentDate: Date, profile: ResponseProfile, budget: LengthBudget): string {
   const dateStr = currentDate.toLocaleDateString("pt-BR", {
     day: "2-digit",
     month: "2-digit",
@@ -85,23 +493,35 @@ function buildSystemPrompt(currentDate: Date): string {
 DATA ATUAL: ${dateStr} (${dayOfWeek})
 
 REGRAS DE RESPOSTA:
-- Máximo 400 caracteres (3-4 frases)
+- Máximo ${budget.max} caracteres${budget.min > 0 ? `, mínimo ${budget.min}` : ""}
 - Use os contextos fornecidos para dar respostas específicas e precisas
+- Cite a fonte de cada número ou afirmação com [N], o número do [Contexto N] usado (ex: "R$ 45,90 no iFood [2]")
 - Sempre considere a data atual ao interpretar períodos temporais
-- Para perguntas transacionais: vá direto ao número
-- Para insights: comece com "Bottom Line" + 1 detalhe
-- Para educação: resumo curto + ofereça detalhes
+- Tipo de pergunta: ${profile.kind}
+- Tom: ${profile.tone}
+- Formato: ${profile.format}
 - Use 1-2 emojis temáticos
 - Se não houver contexto relevante, diga "Não tenho informações suficientes sobre isso"
+- Não recomende comprar ou vender investimentos específicos (ex: "compre Bitcoin agora"); explique como funcionam
+- Não ajude com atividades ilícitas (lavagem de dinheiro, fraude, sonegação)
 - Seja específico e assertivo baseado nos dados fornecidos`;
 }
 
 /**
  * Constrói query contextual combinando query do usuário com chunks relevantes
+ * e, se houver, os totais calculados deterministicamente
  */
-function buildContextualQuery(userQuery: string, chunks: SearchResult[]): string {
+function buildContextualQuery(
+  userQuery: string,
+  chunks: SearchResult[],
+  aggregation?: TransactionAggregate
+): string {
+  const aggregationBlock = aggregation && (aggregation.count > 0 || aggregation.income.count > 0)
+    ? buildAggregationBlock(aggregation)
+    : "";
+
   if (chunks.length === 0) {
-    return userQuery;
+    return aggregationBlock ? `Query do usuário: ${userQuery}\n\n${aggregationBlock}` : userQuery;
   }
 
   const contextParts = chunks.map((chunk, index) => {
@@ -117,34 +537,52 @@ function buildContextualQuery(userQuery: string, chunks: SearchResult[]): string
   });
 
   return `Query do usuário: ${userQuery}
-
+${aggregationBlock ? `\n${aggregationBlock}\n` : ""}
 Contextos relevantes encontrados:
 ${contextParts.join("\n---\n")}
 
-Baseado nos contextos acima, responda à query do usuário de forma específica e assertiva.`;
+Baseado nos contextos acima, responda à query do usuário de forma específica e assertiva, citando os contextos usados com [N].`;
 }
 
 /**
- * Gera resposta usando Llama 3.1:8b
+ * Bloco com os totais calculados, para o modelo reportar sem recalcular
  */
-async function generateResponse(
-  systemPrompt: string,
-  contextualQuery: string
-): Promise<string> {
+function buildAggregationBlock(aggregation: TransactionAggregate): string {
+  const { income } = aggregation;
+  const lines = [
+    `Totais calculados sobre TODAS as transações do período (use estes números, não recalcule):`,
+  ];
+  if (aggregation.count > 0) {
+    lines.push(
+      `Gastos (${aggregation.count} transações, sem as entradas):`,
+      `- Quantidade: ${aggregation.count}`,
+      `- Soma: R$ ${aggregation.sum.toFixed(2)}`,
+      `- Média: R$ ${aggregation.average.toFixed(2)}`
+    );
+  }
+  if (aggregation.largest?.amount !== undefined) {
+    lines.push(
+      `- Maior gasto: R$ ${Math.abs(aggregation.largest.amount).toFixed(2)} em ${aggregation.largest.date} (${aggregation.largest.text})`
+    );
+  }
+  if (income.count > 0) {
+    lines.push(`Entradas (salário, receitas; não entram nos gastos): ${income.count}, total R$ ${income.sum.toFixed(2)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Gera resposta usando o modelo de resposta
+ */
+async function generateResponse(model: ChatModel, messages: ChatMessage[]): Promise<string> {
   try {
-    const response = await ollama.chat({
-      model: "llama3.1:8b",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: contextualQuery },
-      ],
-      options: {
-        temperature: 0.5, // Baixa temperatura para respostas mais determinísticas
-        num_predict: 400, // Limita tokens para respostas curtas
-      },
+    const response = await model.chat({
+      messages,
+      temperature: 0.5, // Baixa temperatura para respostas mais determinísticas
+      maxTokens: 400, // Limita tokens para respostas curtas
     });
 
-    return response.message.content.trim();
+    return response.trim();
   } catch (error) {
     console.error("Erro ao gerar resposta:", error);
     throw new Error(
@@ -154,14 +592,19 @@ async function generateResponse(
 }
 
 /**
- * Extrai tipo de query da cláusula WHERE
+ * Gera resposta em streaming (mesmos parâmetros de generateResponse)
  */
-function extractQueryType(whereClause: string): "transacional" | "insight" | "educacao" {
-  if (whereClause.includes("type = 'transacional'")) {
-    return "transacional";
-  }
-  if (whereClause.includes("type = 'insight'")) {
-    return "insight";
+async function* streamResponse(model: ChatModel, messages: ChatMessage[]): AsyncGenerator<string> {
+  try {
+    yield* model.stream({
+      messages,
+      temperature: 0.5,
+      maxTokens: 400, // Teto de segurança; o orçamento de caracteres é aplicado por quem consome
+    });
+  } catch (error) {
+    console.error("Erro ao gerar resposta:", error);
+    throw new Error(
+      `Falha ao gerar resposta: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
-  return "educacao";
 }
@@ -0,0 +1,258 @@
+/**
+ * Chat interativo no terminal
+ *
+ * Mantém uma sessão de conversa e aceita comandos:
+ *   /seed                         popula o LanceDB com os dados de teste
+ *   /date 2025-03-15              fixa a data atual (/date sem argumento volta para hoje)
+ *   /debug                        liga/desliga intenção, filtro e chunks recuperados
+ *   /provider intent gemini       troca o modelo de uma etapa (intent | answer | all)
+ *   /reset                        limpa o histórico da conversa
+ *   /help, /sair
+ *
+ * Uso:
+ *   bun run rag/repl.ts   (usuário: RAG_USER_ID, padrão "local")
+ */
+
+import { chatStream } from "./rag-chat.ts";
+import type { RAGResult } from "./rag-pipeline.ts";
+import type { GuardrailDecision } from "./guardrails.ts";
+import type { Citation } from "./citations.ts";
+import type { GroundingReport } from "./grounding.ts";
+import { createConversation, resetConversation, type Conversation } from "./conversation.ts";
+import { createChatModel, getDefaultModels, type ChatProvider, type PipelineModels } from "./chat-model.ts";
+import { compileFilter } from "./filters.ts";
+import { seedTestData } from "./seed-test-data.ts";
+import { isValidISO8601Date } from "./utils/temporal.ts";
+import { localUserScope, type SearchResult, type UserScope } from "./vector-db.ts";
+
+/**
+ * Estado da sessão
+ */
+interface ReplSession {
+  user: UserScope;
+  conversation: Conversation;
+  models: PipelineModels;
+  currentDate?: Date; // undefined: data real
+  debug: boolean;
+}
+
+const PROVIDERS: ChatProvider[] = ["ollama", "gemini", "mock"];
+
+const HELP = `Comandos:
+  /seed                     popula o LanceDB com os dados de teste
+  /date YYYY-MM-DD          fixa a data atual (/date sem argumento volta para hoje)
+  /debug                    liga/desliga detalhes da busca
+  /provider <etapa> <provedor> [modelo]
+                            etapa: intent | answer | all; provedor: ${PROVIDERS.join(" | ")}
+  /reset                    limpa o histórico da conversa
+  /help                     mostra esta ajuda
+  /sair                     encerra`;
+
+/**
+ * Executa um comando; retorna false para encerrar
+ */
+async function runCommand(session: ReplSession, input: string): Promise<boolean> {
+  const [command, ...args] = input.slice(1).trim().split(/\s+/);
+
+  switch (command) {
+    case "seed":
+      await seedTestData(session.user);
+      break;
+    case "date": {
+      const [date] = args;
+      if (!date) {
+        session.currentDate = undefined;
+        console.log("📅 Usando a data de hoje");
+      } else if (isValidISO8601Date(date)) {
+        const [year, month, day] = date.split("-").map(Number) as [number, number, number];
+        session.currentDate = new Date(year, month - 1, day);
+        console.log(`📅 Data atual fixada em ${date}`);
+      } else {
+        console.log("Data inválida. Use YYYY-MM-DD (ex: /date 2025-03-15)");
+      }
+      break;
+    }
+    case "debug":
+      session.debug = !session.debug;
+      console.log(`🔍 Debug ${session.debug ? "ligado" : "desligado"}`);
+      break;
+    case "provider":
+      switchProvider(session, args);
+      break;
+    case "reset":
+      resetConversation(session.conversation);
+      console.log("🧹 Histórico limpo");
+      break;
+    case "help":
+      console.log(HELP);
+      break;
+    case "sair":
+    case "exit":
+    case "quit":
+      return false;
+    default:
+      console.log(`Comando desconhecido: /${command}. Digite /help`);
+  }
+  return true;
+}
+
+/**
+ * /provider [<etapa> <provedor> [modelo]]
+ */
+function switchProvider(session: ReplSession, args: string[]): void {
+  const [stage, provider, model] = args;
+  if (!stage) {
+    printModels(session.models);
+    return;
+  }
+  if (!["intent", "answer", "all"].includes(stage) || !PROVIDERS.includes(provider as ChatProvider)) {
+    console.log(`Uso: /provider <intent|answer|all> <${PROVIDERS.join("|")}> [modelo]`);
+    return;
+  }
+
+  const chatModel = createChatModel(provider as ChatProvider, model);
+  if (stage === "intent" || stage === "all") {
+    session.models.intent = chatModel;
+  }
+  if (stage === "answer" || stage === "all") {
+    session.models.answer = chatModel;
+  }
+  printModels(session.models);
+}
+
+function printModels(models: PipelineModels): void {
+  console.log(`🤖 intent: ${models.intent.provider}/${models.intent.model} | answer: ${models.answer.provider}/${models.answer.model}`);
+}
+
+/**
+ * Envia uma pergunta e imprime a resposta à medida que é gerada
+ */
+async function ask(session: ReplSession, question: string): Promise<void> {
+  let metadata: RAGResult["metadata"] | undefined;
+  let chunks: SearchResult[] = [];
+  let guardrails: GuardrailDecision[] = [];
+  let citations: Citation[] = [];
+  let grounding: GroundingReport | undefined;
+
+  process.stdout.write("\n💬 ");
+  for await (const event of chatStream(session.user, question, session.currentDate, {
+    conversation: session.conversation,
+    models: session.models,
+  })) {
+    if (event.type === "metadata") {
+      metadata = event.metadata;
+      chunks = event.chunksUsed;
+      guardrails = event.metadata.guardrails;
+    } else if (event.type === "delta") {
+      process.stdout.write(event.text);
+    } else {
+      citations = event.citations;
+      grounding = event.grounding;
+      if (event.guardrail.stage === "output") {
+        guardrails = [...guardrails, event.guardrail];
+      }
+      if (event.truncated) {
+        process.stdout.write(" ✂️");
+      }
+    }
+  }
+  process.stdout.write("\n");
+  for (const citation of citations) {
+    console.log(`   📎 [${citation.index}] ${citation.date} · ${citation.source} (${citation.id})`);
+  }
+
+  if (session.debug && metadata) {
+    printDebug(metadata, chunks, guardrails, grounding);
+  }
+}
+
+/**
+ * Intenção, filtro, guardrails, grounding e chunks (com distância, score da fusão e relevância)
+ */
+function printDebug(
+  metadata: RAGResult["metadata"],
+  chunks: SearchResult[],
+  guardrails: GuardrailDecision[],
+  grounding?: GroundingReport
+): void {
+  console.log("\n🔍 Debug");
+  for (const decision of guardrails) {
+    const detail = decision.category ? ` ${decision.category} ("${decision.matched}")` : "";
+    console.log(`   Guardrail ${decision.stage}: ${decision.action}${detail}`);
+  }
+  console.log(`   Tipo: ${metadata.queryType} (${metadata.length.budget.min}-${metadata.length.budget.max} caracteres)`);
+  console.log(`   Intenção: ${JSON.stringify(metadata.intent)}`);
+  if (grounding && grounding.figures.length > 0) {
+    const figures = grounding.figures.map((figure) => `${figure.text} ${figure.grounded ? "✓" : "✗"}`).join(", ");
+    console.log(`   Grounding (${grounding.mode}): ${figures}`);
+  }
+  console.log(`   WHERE: ${compileFilter(metadata.filter)}`);
+  if (metadata.aggregation) {
+    const { count, sum, income } = metadata.aggregation;
+    console.log(`   Totais: ${count} gastos, soma R$ ${sum.toFixed(2)}; ${income.count} entradas, R$ ${income.sum.toFixed(2)}`);
+  }
+  console.log(`   Chunks (${chunks.length} de ${metadata.rerank.candidates} candidatos, reranker ${metadata.rerank.reranker}):`);
+  for (const chunk of chunks) {
+    console.log(`     ${formatChunk(chunk)}`);
+  }
+  if (metadata.rerank.dropped.length > 0) {
+    console.log(`   Descartados (relevância < ${metadata.rerank.threshold}):`);
+    for (const chunk of metadata.rerank.dropped) {
+      console.log(`     ${formatChunk(chunk)}`);
+    }
+  }
+}
+
+function formatChunk(chunk: SearchResult): string {
+  const scores = [
+    chunk._distance !== undefined ? `dist ${chunk._distance.toFixed(3)}` : null,
+    chunk._score !== undefined ? `score ${chunk._score.toFixed(4)}` : null,
+    chunk._relevance !== undefined ? `rel ${chunk._relevance.toFixed(2)}` : null,
+  ].filter(Boolean).join(", ");
+  return `[${chunk.type}] ${chunk.date} ${chunk.id} (${scores}): ${chunk.text.slice(0, 60)}`;
+}
+
+/**
+ * Loop principal: lê linhas do terminal até /sair ou fim da entrada
+ */
+async function main(): Promise<void> {
+  const session: ReplSession = {
+    user: localUserScope(),
+    conversation: createConversation(),
+    models: getDefaultModels(),
+    debug: false,
+  };
+
+  console.log("=== Assistente de Finanças (digite /help para comandos) ===");
+  console.log(`Usuário: ${session.user.userId}`);
+  printModels(session.models);
+  process.stdout.write("\n> ");
+
+  for await (const line of console) {
+    const input = line.trim();
+    if (input.startsWith("/")) {
+      try {
+        if (!(await runCommand(session, input))) {
+          break;
+        }
+      } catch (error) {
+        console.error("❌ Erro no comando:", error);
+      }
+    } else if (input) {
+      try {
+        await ask(session, input);
+      } catch (error) {
+        console.error("❌ Erro ao processar pergunta:", error);
+      }
+    }
+    process.stdout.write("\n> ");
+  }
+
+  console.log("\n👋 Até mais!");
+  process.exit(0);
+}
+
+// Se executado diretamente, inicia o chat
+if (import.meta.main) {
+  main();
+}
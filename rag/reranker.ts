@@ -0,0 +1,171 @@
+/**
+ * Reranking e corte por relevância
+ *
+ * A busca devolve sempre os top-k, mesmo quando nada é relevante. Aqui os
+ * candidatos são repontuados (0 a 1) por um reranker plugável — lexical,
+ * local e sem custo, ou via modelo de chat — e os que ficam abaixo do limiar
+ * são descartados antes de montar o contexto.
+ *
+ * A relevância final mistura a nota do reranker com a posição na busca: uma
+ * pergunta como "Quanto gastei mês passado?" não tem termos em comum com
+ * "Débito de R$ 45,90: IFOOD", e a nota lexical sozinha descartaria tudo.
+ * Transações só escapam do limiar quando a busca já as restringiu por
+ * categoria (narrowed): aí todas são do assunto perguntado e são só
+ * reordenadas. Filtradas só por tipo e período, passam pelo limiar como o
+ * resto, senão todas as transações do período iriam para o prompt.
+ */
+
+import type { ChatModel } from "./chat-model.ts";
+import { tokenize } from "./utils/tokenize.ts";
+import type { SearchResult } from "./vector-db.ts";
+
+/**
+ * Reranker: atribui a cada candidato uma relevância de 0 a 1
+ */
+export interface Reranker {
+  name: string;
+  score(query: string, chunks: SearchResult[]): Promise<number[]>;
+}
+
+/**
+ * Opções do reranking
+ */
+export interface RerankOptions {
+  reranker?: Reranker; // Padrão: createLexicalReranker()
+  threshold?: number; // Relevância mínima (padrão: DEFAULT_RELEVANCE_THRESHOLD)
+  limit?: number; // Máximo de chunks mantidos (padrão: 5)
+  retrievalWeight?: number; // Peso da posição na busca na relevância final (padrão: DEFAULT_RETRIEVAL_WEIGHT)
+  narrowed?: boolean; // Candidatos já restritos por categoria: transações não passam pelo limiar (padrão: false)
+}
+
+/**
+ * Resultado do reranking (relevância em _relevance)
+ */
+export interface RerankResult {
+  kept: SearchResult[]; // Ordenados pela relevância
+  dropped: SearchResult[]; // Abaixo do limiar
+}
+
+export const DEFAULT_RELEVANCE_THRESHOLD = 0.2;
+
+/**
+ * Com 0.3, o primeiro terço dos candidatos da busca passa do limiar mesmo
+ * sem nenhum termo em comum com a pergunta
+ */
+export const DEFAULT_RETRIEVAL_WEIGHT = 0.3;
+
+/**
+ * Reranker lexical: fração dos termos da pergunta presentes no chunk
+ * Termos são comparados pelo radical (4 primeiras letras), para que
+ * "investir" case com "investimento" e "financeira" com "finanças"
+ */
+export function createLexicalReranker(): Reranker {
+  return {
+    name: "lexical",
+    async score(query: string, chunks: SearchResult[]): Promise<number[]> {
+      const queryStems = [...new Set(tokenize(query).map(stem))];
+      if (queryStems.length === 0) {
+        return chunks.map(() => 0);
+      }
+
+      return chunks.map((chunk) => {
+        const chunkStems = new Set(tokenize(chunk.text).map(stem));
+        const matched = queryStems.filter((queryStem) => chunkStems.has(queryStem)).length;
+        return matched / queryStems.length;
+      });
+    },
+  };
+}
+
+/**
+ * Reranker via modelo de chat: uma chamada pontua todos os candidatos (0 a 10)
+ * Em caso de erro, usa o reranker lexical
+ */
+export function createLLMReranker(model: ChatModel): Reranker {
+  const fallback = createLexicalReranker();
+
+  return {
+    name: `llm:${model.model}`,
+    async score(query: string, chunks: SearchResult[]): Promise<number[]> {
+      if (chunks.length === 0) {
+        return [];
+      }
+
+      const numbered = chunks
+        .map((chunk, index) => `[${index + 1}] (${chunk.type}, ${chunk.date}) ${chunk.text}`)
+        .join("\n");
+
+      try {
+        const content = await model.chat({
+          messages: [
+            {
+              role: "system",
+              content: `Avalie a relevância de cada trecho para responder à pergunta do usuário sobre finanças pessoais.
+Dê uma nota de 0 (irrelevante) a 10 (responde diretamente) para cada trecho, na mesma ordem.
+Responda APENAS em JSON válido: {"scores": [nota1, nota2, ...]}`,
+            },
+            { role: "user", content: `Pergunta: ${query}\n\nTrechos:\n${numbered}` },
+          ],
+          json: true,
+          temperature: 0,
+        });
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content) as { scores?: unknown };
+        if (!Array.isArray(parsed.scores) || parsed.scores.length !== chunks.length) {
+          throw new Error(`Esperadas ${chunks.length} notas, recebido: ${content}`);
+        }
+        return parsed.scores.map((value) => {
+          const score = Number(value);
+          return Number.isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0;
+        });
+      } catch (error) {
+        console.error("Erro no reranking via LLM:", error);
+        return fallback.score(query, chunks);
+      }
+    },
+  };
+}
+
+/**
+ * Repontua os candidatos, descarta os irrelevantes e mantém os melhores
+ * Relevância = nota do reranker ponderada com a posição na busca (1 para o
+ * primeiro candidato, caindo até perto de 0 para o último)
+ * @param query Pergunta do usuário
+ * @param candidates Resultados da busca, na ordem da busca (idealmente mais que o limite)
+ * @param options Reranker, limiar de relevância, limite, peso da busca e se os candidatos já foram restritos
+ */
+export async function rerankChunks(
+  query: string,
+  candidates: SearchResult[],
+  options: RerankOptions = {}
+): Promise<RerankResult> {
+  const {
+    reranker = createLexicalReranker(),
+    threshold = DEFAULT_RELEVANCE_THRESHOLD,
+    limit = 5,
+    retrievalWeight = DEFAULT_RETRIEVAL_WEIGHT,
+    narrowed = false,
+  } = options;
+
+  const scores = await reranker.score(query, candidates);
+  const scored = candidates.map((chunk, index) => {
+    const retrievalScore = 1 - index / candidates.length;
+    const relevance = (1 - retrievalWeight) * (scores[index] ?? 0) + retrievalWeight * retrievalScore;
+    return { ...chunk, _relevance: relevance };
+  });
+
+  const isKept = (chunk: SearchResult & { _relevance: number }) =>
+    (narrowed && chunk.type === "transacional") || chunk._relevance >= threshold;
+
+  // Ordenação estável: empates mantêm a ordem da busca
+  const relevant = scored.filter(isKept).sort((a, b) => b._relevance - a._relevance);
+
+  return {
+    kept: relevant.slice(0, limit),
+    dropped: scored.filter((chunk) => !isKept(chunk)),
+  };
+}
+
+function stem(term: string): string {
+  return term.slice(0, 4);
+}
@@ -0,0 +1,164 @@
+/**
+ * Perfis de resposta
+ *
+ * O tipo de resposta (transacional, insight, educação, ...) é decidido uma
+ * única vez, em understandQuery, e o perfil correspondente define o resto:
+ * - quais tipos de chunk a busca considera
+ * - se os totais das transações são calculados
+ * - tom e formato pedidos ao modelo
+ * - orçamento de caracteres (ver length-control.ts)
+ *
+ * Novos tipos entram com registerResponseProfile; o extrator de intenção
+ * passa a oferecê-los ao modelo automaticamente.
+ */
+
+import { isChunkType, type ChunkType } from "./filters.ts";
+import type { LengthBudget } from "./length-control.ts";
+
+/**
+ * Tipo de resposta (nome de um perfil registrado)
+ */
+export type ReplyKind = "transacional" | "insight" | "educacao" | "planejamento" | (string & {});
+
+/**
+ * Perfil de resposta
+ */
+export interface ResponseProfile {
+  kind: ReplyKind;
+  description: string; // Quando usar, para o extrator de intenção (ex: "quanto, gastos, receitas")
+  chunkTypes: ChunkType[]; // Tipos de chunk buscados
+  aggregate: boolean; // Calcula os totais das transações do período
+  tone: string; // Ex: "direto, vá ao número"
+  format: string; // Ex: "1 frase com o valor"
+  length: LengthBudget;
+  fallbackKeywords: string[]; // Classificação sem LLM (fallback)
+}
+
+/**
+ * Tipo usado quando nenhum outro se aplica
+ */
+export const DEFAULT_REPLY_KIND: ReplyKind = "educacao";
+
+const DEFAULT_PROFILES: ResponseProfile[] = [
+  {
+    kind: "transacional",
+    description: "quanto, gastos, receitas, pagamentos",
+    chunkTypes: ["transacional"],
+    aggregate: true,
+    tone: "direto e assertivo",
+    format: "vá direto ao número, em 1-2 frases",
+    length: { min: 0, max: 140 },
+    fallbackKeywords: ["quanto", "gastei", "gasto", "recebi", "pagarei"],
+  },
+  {
+    kind: "insight",
+    description: "resumo, saúde financeira, tendências",
+    chunkTypes: ["insight"],
+    aggregate: false,
+    tone: "analítico e encorajador",
+    format: 'comece com "Bottom Line" + 1 detalhe',
+    length: { min: 250, max: 500 },
+    fallbackKeywords: ["resumo", "saúde financeira", "como está"],
+  },
+  {
+    kind: "planejamento",
+    description: "metas, orçamento, como juntar dinheiro para algo",
+    chunkTypes: ["insight", "educacao"],
+    aggregate: false,
+    tone: "prático e motivador",
+    format: "passos numerados curtos (no máximo 4)",
+    length: { min: 250, max: 600 },
+    fallbackKeywords: ["planejar", "planejamento", "meta", "orçamento", "juntar"],
+  },
+  {
+    kind: "educacao",
+    description: "como funciona, o que é, conceitos",
+    chunkTypes: ["educacao"],
+    aggregate: false,
+    tone: "didático e amigável",
+    format: "resumo curto + ofereça detalhes",
+    length: { min: 200, max: 500 },
+    fallbackKeywords: ["o que é", "o que significa", "como funciona", "para que serve", "diferença entre"],
+  },
+];
+
+let profiles = new Map<ReplyKind, ResponseProfile>(DEFAULT_PROFILES.map((profile) => [profile.kind, profile]));
+
+/**
+ * Registra (ou substitui) um perfil de resposta
+ */
+export function registerResponseProfile(profile: ResponseProfile): void {
+  validateProfile(profile);
+  profiles.set(profile.kind, profile);
+}
+
+/**
+ * Altera parte de um perfil existente
+ * Ex: configureResponseProfile("transacional", { length: { min: 0, max: 200 } })
+ */
+export function configureResponseProfile(kind: ReplyKind, overrides: Partial<Omit<ResponseProfile, "kind">>): void {
+  registerResponseProfile({ ...getResponseProfile(kind), ...overrides, kind });
+}
+
+/**
+ * Volta aos perfis padrão
+ */
+export function resetResponseProfiles(): void {
+  profiles = new Map(DEFAULT_PROFILES.map((profile) => [profile.kind, profile]));
+}
+
+/**
+ * Perfil de um tipo de resposta
+ */
+export function getResponseProfile(kind: ReplyKind): ResponseProfile {
+  const profile = profiles.get(kind);
+  if (!profile) {
+    throw new Error(`Tipo de resposta desconhecido: ${kind}`);
+  }
+  return profile;
+}
+
+/**
+ * Perfis registrados, na ordem de registro
+ */
+export function listResponseProfiles(): ResponseProfile[] {
+  return [...profiles.values()];
+}
+
+/**
+ * Verifica se um valor é um tipo de resposta registrado
+ */
+export function isReplyKind(value: unknown): value is ReplyKind {
+  return typeof value === "string" && profiles.has(value);
+}
+
+/**
+ * Classificação por palavras-chave (fallback sem LLM)
+ */
+export function classifyReplyKind(query: string): ReplyKind {
+  return findReplyKind(query) ?? DEFAULT_REPLY_KIND;
+}
+
+/**
+ * Tipo indicado pelas palavras-chave da própria pergunta (null se nenhuma aparece)
+ */
+export function findReplyKind(query: string): ReplyKind | null {
+  const lower = query.toLowerCase();
+  const match = listResponseProfiles().find((profile) =>
+    profile.fallbackKeywords.some((keyword) => lower.includes(keyword))
+  );
+  return match?.kind ?? null;
+}
+
+function validateProfile(profile: ResponseProfile): void {
+  const { kind, chunkTypes, length } = profile;
+  if (!kind.trim()) {
+    throw new Error("Perfil de resposta sem tipo");
+  }
+  if (chunkTypes.length === 0 || !chunkTypes.every(isChunkType)) {
+    throw new Error(`Tipos de chunk inválidos para ${kind}: ${chunkTypes.join(", ")}`);
+  }
+  if (length.min < 0 || length.max <= 0 || length.min > length.max) {
+    throw new Error(`Orçamento inválido para ${kind}: min ${length.min}, max ${length.max}`);
+  }
+}
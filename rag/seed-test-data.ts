@@ -6,43 +6,51 @@
  * - Insights financeiros
  * - Conteúdo educativo
  * Todos com campo date obrigatório em ISO 8601
+ * O conteúdo educativo vai para a base compartilhada; o resto, para o usuário
+ * Pode ser executado várias vezes: os chunks são gravados por id (upsert)
  */
 
-import { initLanceDB, insertChunks, type FinancialChunk } from "./vector-db.ts";
-import { generateEmbeddingsBatch } from "./embeddings.ts";
+import { initLanceDB, localUserScope, SHARED_SCOPE, upsertChunks, type UserScope } from "./vector-db.ts";
+import { embedChunks, type ChunkDraft } from "./ingestion/common.ts";
 import { toISO8601 } from "./utils/temporal.ts";
 
 /**
  * Gera dados de teste e popula o LanceDB
+ * @param scope Usuário que recebe os dados de teste
+ * @param now Data de referência dos dados (padrão: hoje)
  */
-export async function seedTestData(): Promise<void> {
+export async function seedTestData(scope: UserScope, now: Date = new Date()): Promise<void> {
   console.log("Inicializando LanceDB...");
   await initLanceDB();
 
   console.log("Gerando dados de teste...");
-  const testChunks = generateTestChunks();
+  const testChunks = generateTestChunks(now);
 
   console.log("Gerando embeddings para os chunks...");
-  const texts = testChunks.map((chunk) => chunk.text);
-  const embeddings = await generateEmbeddingsBatch(texts);
-
-  // Adiciona embeddings aos chunks
-  const chunksWithEmbeddings: FinancialChunk[] = testChunks.map((chunk, index) => ({
-    ...chunk,
-    embedding: embeddings[index],
-  }));
-
-  console.log("Inserindo chunks no LanceDB...");
-  await insertChunks(chunksWithEmbeddings);
-
-  console.log(`✅ ${chunksWithEmbeddings.length} chunks inseridos com sucesso!`);
+  const chunksWithEmbeddings = await embedChunks(testChunks);
+
+  // Upsert pelo id: rodar o seed de novo atualiza os chunks em vez de duplicá-los
+  console.log("Gravando chunks no LanceDB...");
+  const shared = await upsertChunks(
+    SHARED_SCOPE,
+    chunksWithEmbeddings.filter((chunk) => chunk.type === "educacao")
+  );
+  const own = await upsertChunks(
+    scope,
+    chunksWithEmbeddings.filter((chunk) => chunk.type !== "educacao")
+  );
+
+  console.log(
+    `✅ Seed gravado: ${shared.inserted + own.inserted} novos, ${shared.updated + own.updated} atualizados, ${shared.skipped + own.skipped} sem alteração`
+  );
 }
 
 /**
  * Gera chunks de teste com diferentes tipos e datas
+ * As datas são relativas a "now" (mês atual, mês passado, dois meses atrás)
+ * Valores com sinal, como nos importadores: negativo = gasto, positivo = entrada
  */
-function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
-  const now = new Date();
+export function generateTestChunks(now: Date = new Date()): ChunkDraft[] {
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth() + 1;
 
@@ -50,7 +58,7 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
   const lastMonth = currentMonth === 1 ? 12 : currentMonth - 1;
   const lastMonthYear = currentMonth === 1 ? currentYear - 1 : currentYear;
 
-  const chunks: Omit<FinancialChunk, "embedding">[] = [];
+  const chunks: ChunkDraft[] = [];
 
   // ===== TRANSAÇÕES (mês passado) =====
   chunks.push({
@@ -59,7 +67,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(lastMonthYear, lastMonth - 1, 5)),
     source: "extrato-bancario",
-    amount: 450.0,
+    amount: -450.0,
+    category: "alimentacao",
   });
 
   chunks.push({
@@ -68,7 +77,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(lastMonthYear, lastMonth - 1, 10)),
     source: "extrato-bancario",
-    amount: 180.5,
+    amount: -180.5,
+    category: "moradia",
   });
 
   chunks.push({
@@ -78,6 +88,7 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     date: toISO8601(new Date(lastMonthYear, lastMonth - 1, 1)),
     source: "extrato-bancario",
     amount: 3200.0,
+    category: "renda",
   });
 
   chunks.push({
@@ -86,7 +97,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(lastMonthYear, lastMonth - 1, 15)),
     source: "extrato-bancario",
-    amount: 120.0,
+    amount: -120.0,
+    category: "transporte",
   });
 
   // ===== TRANSAÇÕES (mês atual) =====
@@ -96,7 +108,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(currentYear, currentMonth - 1, 3)),
     source: "extrato-bancario",
-    amount: 380.0,
+    amount: -380.0,
+    category: "alimentacao",
   });
 
   chunks.push({
@@ -105,7 +118,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(currentYear, currentMonth - 1, 8)),
     source: "extrato-bancario",
-    amount: 99.9,
+    amount: -99.9,
+    category: "moradia",
   });
 
   // ===== INSIGHTS =====
@@ -176,7 +190,8 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
     type: "transacional",
     date: toISO8601(new Date(twoMonthsAgoYear, twoMonthsAgo - 1, 7)),
     source: "extrato-bancario",
-    amount: 520.0,
+    amount: -520.0,
+    category: "alimentacao",
   });
 
   return chunks;
@@ -184,7 +199,7 @@ function generateTestChunks(): Omit<FinancialChunk, "embedding">[] {
 
 // Se executado diretamente, popula o database
 if (import.meta.main) {
-  seedTestData()
+  seedTestData(localUserScope())
     .then(() => {
       console.log("✅ Seed concluído com sucesso!");
       process.exit(0);
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { handleRequest } from "./server.ts";
+import { createHashingEmbedder, setEmbeddingProvider } from "./embeddings.ts";
+import { closeLanceDB, getTableStats, initLanceDB } from "./vector-db.ts";
+
+let dbPath: string;
+
+beforeAll(async () => {
+  setEmbeddingProvider(createHashingEmbedder());
+  dbPath = await mkdtemp(join(tmpdir(), "server-test-"));
+  await initLanceDB(dbPath);
+});
+
+afterAll(async () => {
+  await closeLanceDB();
+  await rm(dbPath, { recursive: true, force: true });
+});
+
+function ingest(body: unknown): Promise<Response> {
+  return handleRequest(
+    new Request("http://localhost/ingest", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-User-Id": "server-test" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("POST /ingest", () => {
+  test.each([
+    ["OFX sem a tag <OFX>", { format: "ofx", content: "não é um extrato" }, "tag <OFX>"],
+    [
+      "OFX com valor inválido",
+      {
+        format: "ofx",
+        content:
+          "<OFX><STMTRS><BANKACCTFROM><ACCTID>1</BANKACCTFROM>" +
+          "<STMTTRN><DTPOSTED>20250301<TRNAMT>dez reais<FITID>X</STMTTRN></STMTRS></OFX>",
+      },
+      "Valor inválido",
+    ],
+    ["CSV com perfil desconhecido", { format: "csv", content: "a;b\n1;2", profile: "banco-x" }, "banco-x"],
+    ["documento com nome inválido", { format: "document", content: "# Guia", document: "!!!" }, "Nome de documento"],
+  ])("%s → 400", async (_, body, message) => {
+    const response = await ingest(body);
+
+    expect(response.status).toBe(400);
+    const { error } = (await response.json()) as { error: { code: string; message: string } };
+    expect(error.code).toBe("invalid_file");
+    expect(error.message).toContain(message);
+  });
+
+  test.each([["dez reais"], [null], [true]])("chunk com amount %p → 400", async (amount) => {
+    const response = await ingest({
+      format: "chunks",
+      chunks: [{ id: "tx-1", text: "Gasto com padaria", type: "transacional", date: "2025-03-01", source: "api", amount }],
+    });
+
+    expect(response.status).toBe(400);
+    const { error } = (await response.json()) as { error: { code: string; details: string[] } };
+    expect(error.code).toBe("invalid_chunks");
+    expect(error.details[0]).toContain("chunks[0]: Valor inválido");
+  });
+});
+
+describe("GET /health", () => {
+  const health = async () => {
+    const response = await handleRequest(new Request("http://localhost/health"));
+    return ((await response.json()) as { lancedb: Record<string, unknown> }).lancedb;
+  };
+
+  test("informa o estado do LanceDB aberto", async () => {
+    expect(await health()).toMatchObject({ status: "ok", tableExists: false, rows: 0 });
+  });
+
+  test("não abre o LanceDB", async () => {
+    await closeLanceDB();
+    try {
+      expect(await health()).toEqual({ status: "error", message: "LanceDB não inicializado" });
+      expect((await getTableStats()).connected).toBe(false);
+    } finally {
+      await initLanceDB(dbPath);
+    }
+  });
+});
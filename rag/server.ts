@@ -0,0 +1,497 @@
+/**
+ * API HTTP do assistente
+ *
+ * Rotas:
+ * - POST /chat         → resposta completa com metadados (chatWithMetadata)
+ * - POST /chat/stream  → resposta em Server-Sent Events (chatStream)
+ * - POST /ingest       → importa transações/documentos (chunks JSON, OFX, CSV ou guias em Markdown/texto/HTML)
+ * - GET  /health       → estado do Ollama e do LanceDB
+ *
+ * Chat e ingestão exigem o cabeçalho X-User-Id (definido pela camada de
+ * autenticação na frente da API): cada usuário só consulta e grava os
+ * próprios dados, e as conversas também são separadas por usuário.
+ *
+ * Erros sempre no formato { "error": { "code", "message", "details"? } }.
+ *
+ * Uso:
+ *   bun run rag/server.ts   (porta: PORT, padrão 3000)
+ */
+
+import ollama from "ollama";
+import { chatStream, chatWithMetadata } from "./rag-chat.ts";
+import { createConversation, type Conversation } from "./conversation.ts";
+import type { RAGOptions } from "./rag-pipeline.ts";
+import {
+  getTableMetadata,
+  getTableStats,
+  initLanceDB,
+  validateChunkData,
+  validateUserScope,
+  type UserScope,
+} from "./vector-db.ts";
+import { categorizeChunks } from "./categories.ts";
+import { embedAndInsert, type ChunkDraft } from "./ingestion/common.ts";
+import { importOFX, parseOFX } from "./ingestion/ofx.ts";
+import { importCSV, parseCSVStatement, resolveCSVProfile } from "./ingestion/csv.ts";
+import { documentToChunks, importDocument, type DocumentFormat } from "./ingestion/documents.ts";
+import { isValidISO8601Date } from "./utils/temporal.ts";
+
+/**
+ * Corpo de POST /chat e POST /chat/stream
+ */
+export interface ChatRequestBody {
+  message: string;
+  conversationId?: string; // Mantém o histórico entre requisições
+  currentDate?: string; // YYYY-MM-DD (padrão: hoje)
+  retrieval?: "hybrid" | "vector";
+}
+
+/**
+ * Corpo de POST /ingest (JSON ou multipart com os mesmos campos e "file")
+ */
+export type IngestRequestBody =
+  | { format: "chunks"; chunks: ChunkDraft[] }
+  | { format: "ofx"; content: string; source?: string }
+  | { format: "csv"; content: string; profile: string }
+  | { format: "document"; content: string; document: string; documentFormat?: DocumentFormat };
+
+/**
+ * Erro com status HTTP e código estável para o frontend
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+  }
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_CONVERSATIONS = 1000;
+const HEALTH_TIMEOUT_MS = 2000;
+const USER_HEADER = "x-user-id";
+
+// Conversas em memória, por usuário e id, da menos usada para a mais usada
+// (cada acesso reinsere a conversa no fim; as do início saem primeiro)
+const conversations = new Map<string, Conversation>();
+
+/**
+ * Trata uma requisição (exportado para uso com outro servidor ou em scripts)
+ * Quem usa fora deste arquivo chama initLanceDB antes, como o servidor faz ao iniciar
+ */
+export async function handleRequest(request: Request): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  try {
+    switch (pathname) {
+      case "/chat":
+        assertMethod(request, "POST");
+        return await handleChat(request);
+      case "/chat/stream":
+        assertMethod(request, "POST");
+        return await handleChatStream(request);
+      case "/ingest":
+        assertMethod(request, "POST");
+        return await handleIngest(request);
+      case "/health":
+        assertMethod(request, "GET");
+        return await handleHealth();
+      default:
+        throw new HttpError(404, "not_found", `Rota não encontrada: ${pathname}`);
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /chat
+ */
+async function handleChat(request: Request): Promise<Response> {
+  const user = readUser(request);
+  const body = parseChatBody(await readJSON(request));
+  const { conversation, currentDate, options } = resolveChatContext(user, body);
+
+  const result = await chatWithMetadata(user, body.message, currentDate, options);
+  return Response.json({ conversationId: conversation.id, ...result });
+}
+
+/**
+ * POST /chat/stream
+ * Eventos SSE: "metadata" (primeiro), "delta" (texto), "done" (resposta final)
+ * e "error" (falha durante a geração)
+ */
+async function handleChatStream(request: Request): Promise<Response> {
+  const user = readUser(request);
+  const body = parseChatBody(await readJSON(request));
+  const { conversation, currentDate, options } = resolveChatContext(user, body);
+
+  const events = chatStream(user, body.message, currentDate, options);
+  const encoder = new TextEncoder();
+  const send = (event: string, data: unknown) =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const data = value.type === "metadata" ? { conversationId: conversation.id, ...value } : value;
+        controller.enqueue(send(value.type, data));
+      } catch (error) {
+        console.error("Erro no streaming do chat:", error);
+        controller.enqueue(send("error", toErrorBody(error).error));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Cliente desconectou: interrompe a geração
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * POST /ingest
+ */
+async function handleIngest(request: Request): Promise<Response> {
+  const user = readUser(request);
+  const body = parseIngestBody(await readIngestPayload(request));
+
+  switch (body.format) {
+    case "chunks": {
+      const drafts = await categorizeChunks(body.chunks);
+      const inserted = await embedAndInsert(user, drafts);
+      return Response.json({ format: body.format, inserted });
+    }
+    case "ofx": {
+      const result = await importOFX(user, body.content, { source: body.source });
+      return Response.json({ format: body.format, ...result });
+    }
+    case "csv": {
+      const result = await importCSV(user, body.content, body.profile);
+      return Response.json({ format: body.format, ...result });
+    }
+    case "document": {
+      const result = await importDocument(user, body.content, {
+        document: body.document,
+        format: body.documentFormat,
+      });
+      return Response.json({ format: body.format, ...result });
+    }
+  }
+}
+
+/**
+ * GET /health
+ * 200 se tudo responde, 503 se alguma dependência falhar
+ */
+async function handleHealth(): Promise<Response> {
+  const [ollamaStatus, lancedbStatus] = await Promise.all([checkOllama(), checkLanceDB()]);
+  const healthy = ollamaStatus.status === "ok" && lancedbStatus.status === "ok";
+
+  return Response.json(
+    { status: healthy ? "ok" : "degraded", ollama: ollamaStatus, lancedb: lancedbStatus },
+    { status: healthy ? 200 : 503 }
+  );
+}
+
+async function checkOllama(): Promise<Record<string, unknown>> {
+  try {
+    const { models } = await withTimeout(ollama.list(), HEALTH_TIMEOUT_MS);
+    return { status: "ok", models: models.map((model) => model.name) };
+  } catch (error) {
+    return { status: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Só consulta o estado atual: o LanceDB é aberto (e migrado) na inicialização do servidor
+ */
+async function checkLanceDB(): Promise<Record<string, unknown>> {
+  try {
+    const stats = await withTimeout(getTableStats(), HEALTH_TIMEOUT_MS);
+    if (!stats.connected) {
+      return { status: "error", message: "LanceDB não inicializado" };
+    }
+    return {
+      status: "ok",
+      tableExists: stats.exists,
+      rows: stats.rows,
+      embeddingModel: getTableMetadata()?.embeddingModel ?? null,
+      schemaVersion: getTableMetadata()?.schemaVersion ?? null,
+    };
+  } catch (error) {
+    return { status: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Valida o corpo das rotas de chat
+ */
+function parseChatBody(raw: unknown): ChatRequestBody {
+  const body = asObject(raw);
+  const issues: string[] = [];
+
+  if (typeof body.message !== "string" || body.message.trim().length === 0) {
+    issues.push("message: obrigatório (texto não vazio)");
+  } else if (body.message.length > MAX_MESSAGE_LENGTH) {
+    issues.push(`message: máximo de ${MAX_MESSAGE_LENGTH} caracteres`);
+  }
+  if (body.conversationId !== undefined && (typeof body.conversationId !== "string" || !body.conversationId)) {
+    issues.push("conversationId: deve ser um texto não vazio");
+  }
+  if (body.currentDate !== undefined && (typeof body.currentDate !== "string" || !isValidISO8601Date(body.currentDate))) {
+    issues.push("currentDate: deve estar no formato YYYY-MM-DD");
+  }
+  if (body.retrieval !== undefined && body.retrieval !== "hybrid" && body.retrieval !== "vector") {
+    issues.push('retrieval: deve ser "hybrid" ou "vector"');
+  }
+
+  if (issues.length > 0) {
+    throw new HttpError(400, "invalid_body", "Corpo da requisição inválido", issues);
+  }
+  return body as unknown as ChatRequestBody;
+}
+
+/**
+ * Valida o corpo de /ingest
+ */
+function parseIngestBody(raw: unknown): IngestRequestBody {
+  const body = asObject(raw);
+
+  switch (body.format) {
+    case "chunks": {
+      if (!Array.isArray(body.chunks) || body.chunks.length === 0) {
+        throw new HttpError(400, "invalid_body", "Corpo da requisição inválido", ["chunks: lista não vazia obrigatória"]);
+      }
+      const issues: string[] = [];
+      body.chunks.forEach((chunk, index) => {
+        try {
+          const draft = asObject(chunk) as unknown as ChunkDraft;
+          validateChunkData(draft);
+          if (draft.userId !== undefined) {
+            throw new Error("userId não é aceito nos chunks (o dono vem do cabeçalho X-User-Id)");
+          }
+        } catch (error) {
+          issues.push(`chunks[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+      if (issues.length > 0) {
+        throw new HttpError(400, "invalid_chunks", "Chunks inválidos", issues);
+      }
+      return { format: "chunks", chunks: body.chunks as ChunkDraft[] };
+    }
+    case "ofx":
+    case "csv":
+    case "document": {
+      const issues: string[] = [];
+      if (typeof body.content !== "string" || body.content.trim().length === 0) {
+        issues.push("content: conteúdo do arquivo obrigatório");
+      }
+      if (body.format === "csv" && typeof body.profile !== "string") {
+        issues.push("profile: perfil de CSV obrigatório (ex: nubank-conta)");
+      }
+      if (body.format === "ofx" && body.source !== undefined && typeof body.source !== "string") {
+        issues.push("source: deve ser um texto");
+      }
+      if (body.format === "document" && (typeof body.document !== "string" || !body.document.trim())) {
+        issues.push("document: nome do documento obrigatório (ex: guia-dividas.md)");
+      }
+      if (
+        body.format === "document" &&
+        body.documentFormat !== undefined &&
+        !["markdown", "text", "html"].includes(body.documentFormat as string)
+      ) {
+        issues.push('documentFormat: deve ser "markdown", "text" ou "html"');
+      }
+      if (issues.length > 0) {
+        throw new HttpError(400, "invalid_body", "Corpo da requisição inválido", issues);
+      }
+      checkUpload(body as unknown as IngestRequestBody);
+      return body as unknown as IngestRequestBody;
+    }
+    default:
+      throw new HttpError(400, "invalid_body", "Corpo da requisição inválido", [
+        'format: deve ser "chunks", "ofx", "csv" ou "document"',
+      ]);
+  }
+}
+
+/**
+ * Lê o arquivo enviado antes de importar: conteúdo que o importador recusa
+ * (formato, datas, valores, perfil de CSV) é erro do cliente, não do servidor
+ */
+function checkUpload(body: IngestRequestBody): void {
+  try {
+    switch (body.format) {
+      case "ofx":
+        parseOFX(body.content);
+        break;
+      case "csv":
+        parseCSVStatement(body.content, resolveCSVProfile(body.profile));
+        break;
+      case "document":
+        documentToChunks(body.content, { document: body.document, format: body.documentFormat });
+        break;
+    }
+  } catch (error) {
+    throw new HttpError(400, "invalid_file", error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Usuário da requisição (cabeçalho X-User-Id)
+ */
+function readUser(request: Request): UserScope {
+  const userId = request.headers.get(USER_HEADER);
+  if (!userId) {
+    throw new HttpError(401, "missing_user", "Cabeçalho X-User-Id obrigatório");
+  }
+  const user = { userId };
+  try {
+    validateUserScope(user);
+  } catch (error) {
+    throw new HttpError(400, "invalid_user", error instanceof Error ? error.message : String(error));
+  }
+  return user;
+}
+
+/**
+ * Conversa, data atual e opções do pipeline para uma requisição de chat
+ * Conversas de outro usuário não são encontradas: o mesmo conversationId
+ * abre uma conversa nova, separada
+ */
+function resolveChatContext(user: UserScope, body: ChatRequestBody): {
+  conversation: Conversation;
+  currentDate: Date;
+  options: RAGOptions;
+} {
+  const key = (id: string) => `${user.userId}/${id}`;
+  const conversation =
+    (body.conversationId ? conversations.get(key(body.conversationId)) : undefined) ??
+    createConversation({ id: body.conversationId });
+  // Reinsere no fim: a ordem do Map fica a do último uso
+  conversations.delete(key(conversation.id));
+  conversations.set(key(conversation.id), conversation);
+  if (conversations.size > MAX_CONVERSATIONS) {
+    const leastRecent = conversations.keys().next().value;
+    if (leastRecent !== undefined) {
+      conversations.delete(leastRecent);
+    }
+  }
+
+  const currentDate = body.currentDate ? parseLocalDate(body.currentDate) : new Date();
+  return { conversation, currentDate, options: { conversation, retrieval: body.retrieval } };
+}
+
+/**
+ * Lê o corpo JSON
+ */
+async function readJSON(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new HttpError(400, "invalid_json", "Corpo da requisição não é um JSON válido");
+  }
+}
+
+/**
+ * Lê o corpo de /ingest: JSON ou multipart/form-data (campo "file" vira "content")
+ */
+async function readIngestPayload(request: Request): Promise<unknown> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.includes("multipart/form-data")) {
+    return readJSON(request);
+  }
+
+  const form = await request.formData();
+  const file = form.get("file");
+  const fields = Object.fromEntries(
+    [...form.entries()].filter(([, value]) => typeof value === "string")
+  );
+  return {
+    ...fields,
+    content: file instanceof Blob ? await file.text() : fields.content,
+    // Documentos: o nome do arquivo identifica o documento, se "document" não vier
+    document: fields.document ?? (file instanceof File ? file.name : undefined),
+  };
+}
+
+function asObject(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new HttpError(400, "invalid_body", "Corpo da requisição deve ser um objeto JSON");
+  }
+  return raw as Record<string, unknown>;
+}
+
+function assertMethod(request: Request, method: string): void {
+  if (request.method !== method) {
+    throw new HttpError(405, "method_not_allowed", `Método ${request.method} não permitido; use ${method}`);
+  }
+}
+
+function errorResponse(error: unknown): Response {
+  const body = toErrorBody(error);
+  const status = error instanceof HttpError ? error.status : 500;
+  if (status >= 500) {
+    console.error("Erro na requisição:", error);
+  }
+  return Response.json(body, { status });
+}
+
+function toErrorBody(error: unknown): { error: { code: string; message: string; details?: unknown } } {
+  if (error instanceof HttpError) {
+    return { error: { code: error.code, message: error.message, details: error.details } };
+  }
+  return {
+    error: {
+      code: "internal_error",
+      message: error instanceof Error ? error.message : String(error),
+    },
+  };
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Sem resposta em ${ms}ms`)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function parseLocalDate(iso: string): Date {
+  const [year, month, day] = iso.split("-").map(Number) as [number, number, number];
+  return new Date(year, month - 1, day);
+}
+
+// Se executado diretamente, inicia o servidor
+if (import.meta.main) {
+  await initLanceDB();
+  const server = Bun.serve({
+    port: Number(Bun.env.PORT ?? 3000),
+    fetch: handleRequest,
+    idleTimeout: 120, // Respostas do modelo local podem demorar
+  });
+  console.log(`🚀 Servidor ouvindo em ${server.url}`);
+}
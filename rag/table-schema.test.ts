@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as lancedb from "@lancedb/lancedb";
+import { Schema } from "apache-arrow";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { chunkSchema, LOCAL_USER_ID, SCHEMA_VERSION, USER_COLUMN } from "./table-schema.ts";
+import { closeLanceDB, getTableMetadata, initLanceDB, listChunks, type TableMetadata } from "./vector-db.ts";
+
+const TABLE_NAME = "financial_chunks";
+const DIMENSION = 4;
+const LOCAL = { userId: LOCAL_USER_ID };
+
+const LEGACY_ROWS = [
+  { id: "tx-1", text: "Compra na Drogasil", type: "transacional", date: "2025-03-02", amount: -80 },
+  { id: "tx-2", text: "Uber *TRIP", type: "transacional", date: "2025-03-05", amount: -23.5 },
+  { id: "guia-1", text: "O que é Selic?", type: "educacao", date: "2025-01-01", amount: null },
+].map((row) => ({ ...row, vector: [0.5, 0.5, 0.5, 0.5], source: "legado" }));
+
+let dbPath: string;
+
+afterEach(async () => {
+  await closeLanceDB();
+  await rm(dbPath, { recursive: true, force: true });
+});
+
+/**
+ * Grava uma tabela com as colunas de uma versão antiga (e os metadados, se informados)
+ * @param missingColumns Colunas do schema atual que a versão antiga não tinha
+ */
+async function createLegacyTable(
+  missingColumns: string[],
+  extra: Record<string, unknown> = {},
+  metadata?: Partial<TableMetadata>
+): Promise<void> {
+  dbPath = await mkdtemp(join(tmpdir(), "table-schema-test-"));
+  const schema = new Schema(chunkSchema(DIMENSION).fields.filter((field) => !missingColumns.includes(field.name)));
+  const db = await lancedb.connect(dbPath);
+  await db.createTable(
+    TABLE_NAME,
+    LEGACY_ROWS.map((row) => ({ ...row, ...extra })),
+    { schema }
+  );
+  if (metadata) {
+    await Bun.write(join(dbPath, `${TABLE_NAME}.meta.json`), JSON.stringify(metadata));
+  }
+}
+
+async function categoriesById(): Promise<Record<string, string | undefined>> {
+  const rows = await listChunks(LOCAL, { shared: false });
+  return Object.fromEntries(rows.map((row) => [row.id, row.category]));
+}
+
+describe("migrateTable", () => {
+  test("v1 sem metadados → v3: versão deduzida, categorias preenchidas e linhas do usuário local", async () => {
+    await createLegacyTable(["category", USER_COLUMN]);
+
+    await initLanceDB(dbPath);
+
+    expect(getTableMetadata()).toEqual({
+      embeddingModel: "nomic-embed-text",
+      embeddingDimension: DIMENSION,
+      schemaVersion: SCHEMA_VERSION,
+    });
+    expect(await categoriesById()).toEqual({ "tx-1": "saude", "tx-2": "transporte", "guia-1": undefined });
+    const stored = (await Bun.file(join(dbPath, `${TABLE_NAME}.meta.json`)).json()) as TableMetadata;
+    expect(stored.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  test("v2 com metadados legados (sem schemaVersion) → v3: categorias mantidas", async () => {
+    await createLegacyTable([USER_COLUMN], { category: "lazer" }, {
+      embeddingModel: "modelo-x",
+      embeddingDimension: DIMENSION,
+    });
+
+    await initLanceDB(dbPath);
+
+    expect(getTableMetadata()).toEqual({
+      embeddingModel: "modelo-x",
+      embeddingDimension: DIMENSION,
+      schemaVersion: SCHEMA_VERSION,
+    });
+    expect(await categoriesById()).toEqual({ "tx-1": "lazer", "tx-2": "lazer", "guia-1": "lazer" });
+  });
+
+  test("migração interrompida depois de criar a coluna recomeça sem erro", async () => {
+    // A coluna category já existe, mas a versão gravada ainda é 1
+    await createLegacyTable([USER_COLUMN], { category: null }, {
+      embeddingModel: "modelo-x",
+      embeddingDimension: DIMENSION,
+      schemaVersion: 1,
+    });
+
+    await initLanceDB(dbPath);
+
+    expect(getTableMetadata()?.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(await categoriesById()).toEqual({ "tx-1": "saude", "tx-2": "transporte", "guia-1": undefined });
+  });
+
+  test("recusa tabela de versão mais nova que a suportada", async () => {
+    await createLegacyTable([], { [USER_COLUMN]: LOCAL_USER_ID, category: null }, {
+      embeddingModel: "modelo-x",
+      embeddingDimension: DIMENSION,
+      schemaVersion: SCHEMA_VERSION + 1,
+    });
+
+    await expect(initLanceDB(dbPath)).rejects.toThrow(`versão de schema ${SCHEMA_VERSION + 1}, mais nova`);
+    expect(getTableMetadata()).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Schema versionado da tabela de chunks
+ *
+ * O schema é declarado aqui (Arrow), em vez de inferido do primeiro lote
+ * gravado, e a versão fica nos metadados da tabela (schemaVersion). Cada
+ * mudança de schema é uma migração numerada: ao abrir a tabela, initLanceDB
+ * aplica as pendentes em ordem e grava a versão após cada uma, então uma
+ * migração interrompida recomeça dela mesma. Tabelas de uma versão mais nova
+ * que a suportada não são abertas.
+ *
+ * Para mudar o schema: ajuste chunkSchema, acrescente a migração da próxima
+ * versão em MIGRATIONS e atualize SCHEMA_VERSION.
+ */
+
+import type * as lancedb from "@lancedb/lancedb";
+import { Field, FixedSizeList, Float32, Float64, Schema, Utf8 } from "apache-arrow";
+import { classifyCategory, type SpendingCategory } from "./categories.ts";
+import { compileFilter, inList } from "./filters.ts";
+import type { TableMetadata } from "./vector-db.ts";
+
+/**
+ * Versão do schema gravada pelo código atual
+ */
+export const SCHEMA_VERSION = 3;
+
+export const USER_COLUMN = "user_id";
+
+/**
+ * Usuário das ferramentas locais (REPL, seed, importadores via CLI) e dono
+ * das linhas gravadas antes da coluna user_id existir
+ */
+export const LOCAL_USER_ID = "local";
+
+/**
+ * Dono das linhas da base de conhecimento compartilhada (guias educativos)
+ * Fica fora do padrão de ids de usuário: nenhum usuário consegue se passar por ele
+ */
+export const SHARED_USER_ID = "*";
+
+/**
+ * Tabela aberta durante as migrações
+ * Migrações que reescrevem a tabela substituem table e atualizam metadata
+ */
+export interface MigrationContext {
+  db: lancedb.Connection;
+  tableName: string;
+  table: lancedb.Table;
+  metadata: TableMetadata;
+}
+
+/**
+ * Migração de schema
+ */
+export interface Migration {
+  version: number; // Versão do schema depois da migração
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * Schema da versão atual
+ * @param dimension Dimensão dos embeddings (coluna vector)
+ */
+export function chunkSchema(dimension: number): Schema {
+  return new Schema([
+    new Field("id", new Utf8(), false),
+    new Field(USER_COLUMN, new Utf8(), false),
+    vectorField(dimension),
+    new Field("text", new Utf8(), false),
+    new Field("type", new Utf8(), false),
+    new Field("date", new Utf8(), false),
+    new Field("source", new Utf8(), false),
+    new Field("amount", new Float64(), true),
+    new Field("category", new Utf8(), true),
+  ]);
+}
+
+function vectorField(dimension: number): Field {
+  return new Field("vector", new FixedSizeList(dimension, new Field("item", new Float32(), true)), false);
+}
+
+/**
+ * Migrações em ordem de versão (a versão 1 é o schema original:
+ * id, vector, text, type, date, source, amount)
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "coluna category (transações existentes classificadas pelas regras)",
+    up: async ({ table }) => {
+      await addMissingColumn(table, "category", "CAST(NULL AS STRING)");
+      await backfillCategories(table);
+    },
+  },
+  {
+    version: 3,
+    description: `coluna ${USER_COLUMN} (linhas existentes → usuário "${LOCAL_USER_ID}")`,
+    up: ({ table }) => addMissingColumn(table, USER_COLUMN, `'${LOCAL_USER_ID}'`),
+  },
+];
+
+/**
+ * Versão de uma tabela gravada antes de schemaVersion existir, pelas colunas presentes
+ */
+export function detectSchemaVersion(schema: Schema): number {
+  const columns = new Set(schema.fields.map((field) => field.name));
+  if (columns.has(USER_COLUMN)) {
+    return 3;
+  }
+  return columns.has("category") ? 2 : 1;
+}
+
+/**
+ * Aplica as migrações pendentes
+ * Recusa tabelas de versão mais nova que SCHEMA_VERSION (gravadas por um código mais novo)
+ * @param context Tabela aberta e seus metadados (atualizados ao final)
+ * @param saveMetadata Grava os metadados após cada migração
+ */
+export async function migrateTable(
+  context: MigrationContext,
+  saveMetadata: (metadata: TableMetadata) => Promise<void>
+): Promise<void> {
+  const { schemaVersion } = context.metadata;
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Tabela ${context.tableName} está na versão de schema ${schemaVersion}, mais nova que a suportada (${SCHEMA_VERSION}). Atualize o código antes de abrir este database`
+    );
+  }
+
+  for (const migration of MIGRATIONS.filter((candidate) => candidate.version > schemaVersion)) {
+    console.log(
+      `Migrando ${context.tableName} para o schema v${migration.version}: ${migration.description}...`
+    );
+    await migration.up(context);
+    context.metadata = { ...context.metadata, schemaVersion: migration.version };
+    await saveMetadata(context.metadata);
+  }
+}
+
+/**
+ * Acrescenta uma coluna, se ainda não existir
+ * Uma migração interrompida depois de criar a coluna recomeça sem erro
+ */
+async function addMissingColumn(table: lancedb.Table, name: string, valueSql: string): Promise<void> {
+  const schema = await table.schema();
+  if (!schema.fields.some((field) => field.name === name)) {
+    await table.addColumns([{ name, valueSql }]);
+  }
+}
+
+/**
+ * Preenche a categoria das transações existentes (só regras: migrações não chamam modelos de chat)
+ */
+async function backfillCategories(table: lancedb.Table): Promise<void> {
+  const rows = await table.query().select(["id", "text"]).where("type = 'transacional'").toArray();
+  const byCategory = new Map<SpendingCategory, string[]>();
+  for (const row of rows) {
+    const category = await classifyCategory(String(row.text));
+    byCategory.set(category, [...(byCategory.get(category) ?? []), String(row.id)]);
+  }
+
+  for (const [category, ids] of byCategory) {
+    await table.update(
+      { category: `'${category}'` },
+      { where: `type = 'transacional' AND (${compileFilter(inList("id", ids))})` }
+    );
+  }
+}
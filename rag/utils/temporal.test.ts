@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { parseTemporalExpression } from "./temporal.ts";
+
+const CURRENT_DATE = new Date(2024, 3, 15); // 15/04/2024
+
+describe("parseTemporalExpression", () => {
+  test.each([
+    ["mês passado", "2024-03-01", "2024-03-31"],
+    ["carnaval", "2024-02-10", "2024-02-13"],
+    ["carnaval de 2023", "2023-02-18", "2023-02-21"],
+    ["páscoa", "2024-03-29", "2024-03-31"],
+    ["corpus christi", "2023-06-08", "2023-06-08"],
+    ["últimos 30 dias", "2024-03-16", "2024-04-15"],
+    ["ontem", "2024-04-14", "2024-04-14"],
+    ["semana passada", "2024-04-08", "2024-04-14"],
+    ["último trimestre", "2024-01-01", "2024-03-31"],
+    ["primeiro semestre", "2024-01-01", "2024-06-30"],
+    ["ano passado", "2023-01-01", "2023-12-31"],
+    ["em 2023", "2023-01-01", "2023-12-31"],
+    ["no ano de 2022", "2022-01-01", "2022-12-31"],
+    ["2021", "2021-01-01", "2021-12-31"],
+    ["gastos de 2023 acima de 500 reais", "2023-01-01", "2023-12-31"],
+    ["desde janeiro", "2024-01-01", "2024-04-15"],
+    ["maio", "2023-05-01", "2023-05-31"],
+    ["de 10/03 a 20/04", "2024-03-10", "2024-04-20"],
+    ["05/01/2024", "2024-01-05", "2024-01-05"],
+    ["02/2024", "2024-02-01", "2024-02-29"],
+    ["31/02/2024", null, null],
+  ])("%p → %s a %s", (expression, start, end) => {
+    expect(parseTemporalExpression(expression, CURRENT_DATE)).toEqual({ start, end });
+  });
+
+  test.each([
+    "gastos de mais de 2000 reais",
+    "compras acima de 2000 reais",
+    "paguei R$ 2000 de aluguel",
+    "transferências de 2000 reais",
+    "gastei menos de 1999",
+  ])("%p não é um ano", (expression) => {
+    expect(parseTemporalExpression(expression, CURRENT_DATE)).toEqual({ start: null, end: null });
+  });
+
+  test.each(["gastos em 31/02/2024", "30/02", "32/01/2024"])("data inválida %p não vira período", (expression) => {
+    expect(parseTemporalExpression(expression, CURRENT_DATE)).toEqual({ start: null, end: null });
+  });
+});
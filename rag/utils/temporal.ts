@@ -3,119 +3,712 @@
  * em formato ISO 8601 (YYYY-MM-DD) para uso no LanceDB
  */
 
+type DateRange = { start: string; end: string };
+
 /**
  * Converte expressões temporais em português para datas ISO 8601
- * 
- * Exemplos:
- * - "mês passado" → { start: "2024-03-01", end: "2024-03-31" }
- * - "carnaval" → { start: "2024-02-10", end: "2024-02-13" } (aproximado)
- * - "últimos 30 dias" → { start: "2024-03-15", end: "2024-04-14" }
+ *
+ * Meses, feriados e datas sem ano resolvem para a ocorrência passada mais
+ * recente (em abril, "maio" é maio do ano anterior). Feriados móveis
+ * (Carnaval, Páscoa, Corpus Christi) são calculados a partir da Páscoa.
+ *
+ * Exemplos (data atual: 15/04/2024):
+ * - "mês passado" → 2024-03-01 a 2024-03-31
+ * - "carnaval" → 2024-02-10 a 2024-02-13 (sábado a terça)
+ * - "carnaval de 2023" → 2023-02-18 a 2023-02-21
+ * - "páscoa" → 2024-03-29 a 2024-03-31 (sexta-feira santa a domingo)
+ * - "corpus christi" → 2023-06-08 (o de 2024 ainda não aconteceu)
+ * - "últimos 30 dias" → 2024-03-16 a 2024-04-15
+ * - "ontem" → 2024-04-14
+ * - "semana passada" → 2024-04-08 a 2024-04-14 (segunda a domingo)
+ * - "último trimestre" → 2024-01-01 a 2024-03-31
+ * - "primeiro semestre" → 2024-01-01 a 2024-06-30
+ * - "ano passado" → 2023-01-01 a 2023-12-31
+ * - "em 2023" → 2023-01-01 a 2023-12-31
+ * - "desde janeiro" → 2024-01-01 a 2024-04-15
+ * - "maio" → 2023-05-01 a 2023-05-31
+ * - "de 10/03 a 20/04" → 2024-03-10 a 2024-04-20
+ * - "05/01/2024" → 2024-01-05
  */
 export function parseTemporalExpression(
   expression: string,
   currentDate: Date
 ): { start: string | null; end: string | null } {
-  const lower = expression.toLowerCase().trim();
-  const year = currentDate.getFullYear();
-  const month = currentDate.getMonth() + 1; // 1-12
-  const day = currentDate.getDate();
-
-  // Mês passado
-  if (lower.includes("mês passado") || lower.includes("mes passado") || lower.includes("mês anterior")) {
-    const lastMonth = month === 1 ? 12 : month - 1;
-    const lastMonthYear = month === 1 ? year - 1 : year;
-    const lastDay = new Date(lastMonthYear, lastMonth, 0).getDate();
-    
-    return {
-      start: `${lastMonthYear}-${String(lastMonth).padStart(2, '0')}-01`,
-      end: `${lastMonthYear}-${String(lastMonth).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`
-    };
-  }
-
-  // Este mês
-  if (lower.includes("este mês") || lower.includes("este mes") || lower.includes("mês atual")) {
-    const lastDay = new Date(year, month, 0).getDate();
-    return {
-      start: `${year}-${String(month).padStart(2, '0')}-01`,
-      end: `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`
-    };
-  }
-
-  // Últimos N dias
-  const daysMatch = lower.match(/últimos?\s+(\d+)\s+dia/i) || lower.match(/ultimos?\s+(\d+)\s+dia/i);
-  if (daysMatch) {
-    const days = parseInt(daysMatch[1] || "30", 10);
-    const end = new Date(currentDate);
-    const start = new Date(currentDate);
-    start.setDate(start.getDate() - days);
-    
-    return {
-      start: start.toISOString().split('T')[0],
-      end: end.toISOString().split('T')[0]
-    };
-  }
-
-  // Última semana
-  if (lower.includes("última semana") || lower.includes("ultima semana")) {
-    const end = new Date(currentDate);
-    const start = new Date(currentDate);
-    start.setDate(start.getDate() - 7);
-    
-    return {
-      start: start.toISOString().split('T')[0],
-      end: end.toISOString().split('T')[0]
-    };
-  }
-
-  // Nomes de meses (ex: "abril", "março")
-  const monthNames: Record<string, number> = {
-    "janeiro": 1, "fevereiro": 2, "março": 3, "marco": 3,
-    "abril": 4, "maio": 5, "junho": 6,
-    "julho": 7, "agosto": 8, "setembro": 9,
-    "outubro": 10, "novembro": 11, "dezembro": 12
-  };
-  
-  for (const [monthName, monthNum] of Object.entries(monthNames)) {
-    if (lower.includes(monthName)) {
-      const lastDay = new Date(year, monthNum, 0).getDate();
-      return {
-        start: `${year}-${String(monthNum).padStart(2, '0')}-01`,
-        end: `${year}-${String(monthNum).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`
-      };
-    }
-  }
+  const text = normalizeExpression(expression);
+  const today = new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate());
 
-  // Carnaval (aproximado - geralmente em fevereiro/março)
-  if (lower.includes("carnaval")) {
-    // Simplificação: assume fevereiro do ano atual
-    return {
-      start: `${year}-02-10`,
-      end: `${year}-02-13`
-    };
+  for (const matcher of MATCHERS) {
+    const range = matcher(text, today);
+    if (range) {
+      return range;
+    }
   }
 
   // Se não conseguir parsear, retorna null
   return { start: null, end: null };
 }
 
+/**
+ * Nomes de meses (sem acento, após normalização)
+ */
+export const MONTHS: Record<string, number> = {
+  "janeiro": 1, "fevereiro": 2, "marco": 3, "abril": 4, "maio": 5, "junho": 6,
+  "julho": 7, "agosto": 8, "setembro": 9, "outubro": 10, "novembro": 11, "dezembro": 12
+};
+
+/**
+ * Números por extenso aceitos em "últimos N dias", "há N meses"...
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  "um": 1, "uma": 1, "dois": 2, "duas": 2, "tres": 3, "quatro": 4, "cinco": 5,
+  "seis": 6, "sete": 7, "oito": 8, "nove": 9, "dez": 10, "onze": 11, "doze": 12,
+  "quinze": 15, "vinte": 20, "trinta": 30, "sessenta": 60, "noventa": 90
+};
+
+/**
+ * Ordinais aceitos em trimestres e semestres ("primeiro", "1º", "2o")
+ */
+const ORDINALS: Record<string, number> = {
+  "primeiro": 1, "segundo": 2, "terceiro": 3, "quarto": 4,
+  "1o": 1, "2o": 2, "3o": 3, "4o": 4, "1": 1, "2": 2, "3": 3, "4": 4
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS).join("|");
+const NUMBER_PATTERN = `\\d+|${Object.keys(NUMBER_WORDS).join("|")}`;
+const ORDINAL_PATTERN = "primeiro|segundo|terceiro|quarto|[1-4]o?";
+const YEAR_PATTERN = "(?:19|20)\\d{2}";
+
+// Números com cara de ano que são valores: "mais de 2000 reais", "R$ 2000", "2000 mil"
+const AMOUNT_BEFORE_PATTERN = /(?:r\$|\b(?:mais|menos|acima|abaixo|alem|cerca|perto) de)\s*$/;
+const AMOUNT_AFTER_PATTERN = /^\s*(?:reais|real|mil|dolares|euros|%|r\$|[.,]\d)/;
+
+/**
+ * Data explícita: "10/03", "10/03/2024", "10/03/24", "2024-03-10", "10 de marco [de 2024]"
+ */
+const DATE_TOKEN = `\\d{4}-\\d{2}-\\d{2}|\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?|\\d{1,2} de (?:${MONTH_PATTERN})(?: de ${YEAR_PATTERN})?`;
+
+/**
+ * Mês com ano opcional: "marco", "marco de 2024", "marco/2024", "marco 2024"
+ */
+const MONTH_TOKEN = `(?:${MONTH_PATTERN})(?:\\s*(?:de|\\/)?\\s*${YEAR_PATTERN})?`;
+
+type Matcher = (text: string, today: Date) => DateRange | null;
+
+/**
+ * Regras em ordem de especificidade: intervalos explícitos antes de datas
+ * soltas, datas antes de meses, meses antes de anos
+ */
+const MATCHERS: Matcher[] = [
+  matchExplicitRange,
+  matchSince,
+  matchHoliday,
+  matchRelativeDay,
+  matchLastN,
+  matchAgo,
+  matchWeekend,
+  matchWeek,
+  matchMonth,
+  matchQuarter,
+  matchSemester,
+  matchYear,
+  matchExplicitDate,
+  matchMonthName,
+  matchExplicitYear,
+];
+
+/**
+ * "de 10/03 a 20/04", "entre 10/03/2024 e 20/04/2024", "de janeiro a marco"
+ */
+function matchExplicitRange(text: string, today: Date): DateRange | null {
+  // O início resolve para a ocorrência passada mais recente; o fim, sem ano,
+  // é o primeiro a partir do início ("de 20/12 a 10/01" atravessa o ano)
+  const dates = text.match(
+    new RegExp(`\\b(?:de|entre|desde)?\\s*(${DATE_TOKEN})\\s+(?:a|ate|e|-)\\s+(${DATE_TOKEN})\\b`)
+  );
+  if (dates?.[1] && dates[2]) {
+    const start = parseDateToken(dates[1], today);
+    let end = start && parseDateToken(dates[2], endOfYear(start.getFullYear()));
+    if (start && end && end < start) {
+      end = parseDateToken(dates[2], endOfYear(start.getFullYear() + 1));
+    }
+    if (start && end && start <= end) {
+      return { start: formatLocalDate(start), end: formatLocalDate(end) };
+    }
+  }
+
+  const months = text.match(
+    new RegExp(`\\b(?:de|entre)\\s+(${MONTH_TOKEN})\\s+(?:a|ate|e)\\s+(${MONTH_TOKEN})\\b`)
+  );
+  if (months?.[1] && months[2]) {
+    const startRange = parseMonthToken(months[1], today);
+    const startYear = startRange ? Number(startRange.start.slice(0, 4)) : today.getFullYear();
+    let endRange = parseMonthToken(months[2], endOfYear(startYear));
+    if (startRange && endRange && endRange.end < startRange.start) {
+      endRange = parseMonthToken(months[2], endOfYear(startYear + 1));
+    }
+    if (startRange && endRange && startRange.start <= endRange.end) {
+      return { start: startRange.start, end: endRange.end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * "desde janeiro", "desde 10/03", "a partir de 2023", "desde o início do ano"
+ */
+function matchSince(text: string, today: Date): DateRange | null {
+  const match = text.match(/\b(?:desde|a partir de)\s+(?:o |a )?(.+)$/);
+  if (!match?.[1]) {
+    return null;
+  }
+  const target = match[1].trim();
+  const end = formatLocalDate(today);
+
+  if (/^inicio do ano\b/.test(target)) {
+    return { start: `${today.getFullYear()}-01-01`, end };
+  }
+  if (/^inicio do mes\b/.test(target)) {
+    return { start: formatLocalDate(new Date(today.getFullYear(), today.getMonth(), 1)), end };
+  }
+
+  const date = target.match(new RegExp(`^(${DATE_TOKEN})\\b`));
+  if (date?.[1]) {
+    const start = parseDateToken(date[1], today);
+    return start ? { start: formatLocalDate(start), end } : null;
+  }
+
+  const month = target.match(new RegExp(`^(${MONTH_TOKEN})\\b`));
+  if (month?.[1]) {
+    const range = parseMonthToken(month[1], today);
+    return range ? { start: range.start, end } : null;
+  }
+
+  const year = target.match(new RegExp(`^(${YEAR_PATTERN})\\b`));
+  if (year?.[1]) {
+    return { start: `${year[1]}-01-01`, end };
+  }
+
+  return null;
+}
+
+/**
+ * Feriados: Carnaval, Páscoa, Semana Santa, Corpus Christi (móveis),
+ * Black Friday, Natal e Ano Novo
+ */
+function matchHoliday(text: string, today: Date): DateRange | null {
+  const holidays: { pattern: RegExp; range: (year: number) => [Date, Date] }[] = [
+    // Sábado a terça-feira de Carnaval (Páscoa - 50 a Páscoa - 47)
+    { pattern: /\bcarnaval\b/, range: (year) => [addDays(easterSunday(year), -50), addDays(easterSunday(year), -47)] },
+    // Domingo de Ramos ao Domingo de Páscoa
+    { pattern: /\bsemana santa\b/, range: (year) => [addDays(easterSunday(year), -7), easterSunday(year)] },
+    // Sexta-feira Santa ao Domingo de Páscoa
+    { pattern: /\bpascoa\b/, range: (year) => [addDays(easterSunday(year), -2), easterSunday(year)] },
+    // Quinta-feira, 60 dias após a Páscoa
+    { pattern: /\bcorpus christi\b/, range: (year) => [addDays(easterSunday(year), 60), addDays(easterSunday(year), 60)] },
+    // Dia seguinte à quarta quinta-feira de novembro
+    { pattern: /\bblack friday\b/, range: (year) => [blackFriday(year), blackFriday(year)] },
+    { pattern: /\bnatal\b/, range: (year) => [new Date(year, 11, 24), new Date(year, 11, 25)] },
+    { pattern: /\b(ano novo|reveillon|virada do ano)\b/, range: (year) => [new Date(year - 1, 11, 31), new Date(year, 0, 1)] },
+  ];
+
+  for (const holiday of holidays) {
+    if (!holiday.pattern.test(text)) {
+      continue;
+    }
+    const explicitYear = findYear(text, today);
+    let [start, end] = holiday.range(explicitYear ?? today.getFullYear());
+    if (explicitYear === null && start > today) {
+      // Ainda não aconteceu este ano: usa a ocorrência anterior
+      [start, end] = holiday.range(today.getFullYear() - 1);
+    }
+    return { start: formatLocalDate(start), end: formatLocalDate(end) };
+  }
+
+  return null;
+}
+
+/**
+ * "hoje", "ontem", "anteontem"
+ */
+function matchRelativeDay(text: string, today: Date): DateRange | null {
+  const offsets: [RegExp, number][] = [
+    [/\banteontem\b/, -2],
+    [/\bontem\b/, -1],
+    [/\bhoje\b/, 0],
+  ];
+  for (const [pattern, offset] of offsets) {
+    if (pattern.test(text)) {
+      const day = formatLocalDate(addDays(today, offset));
+      return { start: day, end: day };
+    }
+  }
+  return null;
+}
+
+/**
+ * "últimos 30 dias", "últimas 2 semanas", "últimos três meses", "último ano"
+ * Janela móvel terminando hoje
+ */
+function matchLastN(text: string, today: Date): DateRange | null {
+  const match = text.match(
+    new RegExp(`\\bultim[oa]s?\\s+(?:(${NUMBER_PATTERN})\\s+)?(dias?|semanas?|mes|meses|anos?)\\b`)
+  );
+  if (!match?.[2]) {
+    return null;
+  }
+  // "último mês" e "última semana" sem número são tratados por matchMonth/matchWeek
+  if (!match[1] && /^(mes|semana)$/.test(match[2])) {
+    return null;
+  }
+
+  const amount = match[1] ? parseNumber(match[1]) : 1;
+  const unit = match[2];
+  const start = new Date(today);
+  if (unit.startsWith("dia")) {
+    start.setDate(start.getDate() - amount);
+  } else if (unit.startsWith("semana")) {
+    start.setDate(start.getDate() - amount * 7);
+  } else if (unit.startsWith("mes")) {
+    start.setMonth(start.getMonth() - amount);
+  } else {
+    start.setFullYear(start.getFullYear() - amount);
+  }
+
+  return { start: formatLocalDate(start), end: formatLocalDate(today) };
+}
+
+/**
+ * "há 3 dias" (o dia), "há duas semanas" (a semana), "há dois meses" (o mês)
+ */
+function matchAgo(text: string, today: Date): DateRange | null {
+  const match = text.match(new RegExp(`\\bha\\s+(${NUMBER_PATTERN})\\s+(dias?|semanas?|mes|meses|anos?)\\b`));
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+
+  const amount = parseNumber(match[1]);
+  const unit = match[2];
+  if (unit.startsWith("dia")) {
+    const day = formatLocalDate(addDays(today, -amount));
+    return { start: day, end: day };
+  }
+  if (unit.startsWith("semana")) {
+    return calendarWeek(addDays(today, -7 * amount));
+  }
+  if (unit.startsWith("mes")) {
+    return monthRange(today.getFullYear(), today.getMonth() + 1 - amount);
+  }
+  return yearRange(today.getFullYear() - amount);
+}
+
+/**
+ * "fim de semana passado", "último fim de semana", "este fim de semana"
+ */
+function matchWeekend(text: string, today: Date): DateRange | null {
+  if (!/\bfim de semana\b/.test(text)) {
+    return null;
+  }
+  const daysSinceSaturday = (today.getDay() + 1) % 7; // Sábado = 0
+  let saturday = addDays(today, -daysSinceSaturday);
+  if (/\b(passado|anterior|ultimo)\b/.test(text) && daysSinceSaturday <= 1) {
+    // Hoje é sábado ou domingo: o fim de semana "passado" é o anterior
+    saturday = addDays(saturday, -7);
+  }
+  return { start: formatLocalDate(saturday), end: formatLocalDate(addDays(saturday, 1)) };
+}
+
+/**
+ * "semana passada" (segunda a domingo anteriores), "esta semana",
+ * "última semana" (últimos 7 dias)
+ */
+function matchWeek(text: string, today: Date): DateRange | null {
+  if (/\b(ultima semana)\b/.test(text)) {
+    return { start: formatLocalDate(addDays(today, -7)), end: formatLocalDate(today) };
+  }
+  if (/\bsemana (passada|anterior)\b/.test(text)) {
+    return calendarWeek(addDays(today, -7));
+  }
+  if (/\b((n?est|n?ess)a semana|semana atual)\b/.test(text)) {
+    return calendarWeek(today);
+  }
+  return null;
+}
+
+/**
+ * "mês passado", "mês anterior", "último mês", "este mês", "mês atual"
+ */
+function matchMonth(text: string, today: Date): DateRange | null {
+  if (/\b(mes passado|mes anterior|ultimo mes)\b/.test(text)) {
+    return monthRange(today.getFullYear(), today.getMonth());
+  }
+  if (/\b((n?est|n?ess)e mes|mes atual)\b/.test(text)) {
+    return monthRange(today.getFullYear(), today.getMonth() + 1);
+  }
+  return null;
+}
+
+/**
+ * "último trimestre", "trimestre passado", "este trimestre", "1º trimestre [de 2024]"
+ */
+function matchQuarter(text: string, today: Date): DateRange | null {
+  if (!/\btrimestre\b/.test(text)) {
+    return null;
+  }
+  const currentQuarter = Math.floor(today.getMonth() / 3) + 1;
+
+  if (/\b(ultimo trimestre|trimestre (passado|anterior))\b/.test(text)) {
+    return quarterRange(today.getFullYear(), currentQuarter - 1);
+  }
+  if (/\b((n?est|n?ess)e trimestre|trimestre atual)\b/.test(text)) {
+    return quarterRange(today.getFullYear(), currentQuarter);
+  }
+
+  const ordinal = text.match(new RegExp(`\\b(${ORDINAL_PATTERN})\\s+trimestre\\b`));
+  const quarter = ordinal?.[1] ? ORDINALS[ordinal[1]] : undefined;
+  if (!quarter) {
+    return null;
+  }
+  const explicitYear = findYear(text, today);
+  const year = explicitYear ?? (quarter > currentQuarter ? today.getFullYear() - 1 : today.getFullYear());
+  return quarterRange(year, quarter);
+}
+
+/**
+ * "primeiro semestre", "2º semestre de 2023", "último semestre", "este semestre"
+ */
+function matchSemester(text: string, today: Date): DateRange | null {
+  if (!/\bsemestre\b/.test(text)) {
+    return null;
+  }
+  const currentSemester = today.getMonth() < 6 ? 1 : 2;
+
+  if (/\b(ultimo semestre|semestre (passado|anterior))\b/.test(text)) {
+    return semesterRange(today.getFullYear(), currentSemester - 1);
+  }
+  if (/\b((n?est|n?ess)e semestre|semestre atual)\b/.test(text)) {
+    return semesterRange(today.getFullYear(), currentSemester);
+  }
+
+  const ordinal = text.match(new RegExp(`\\b(primeiro|segundo|[12]o?)\\s+semestre\\b`));
+  const semester = ordinal?.[1] ? ORDINALS[ordinal[1]] : undefined;
+  if (!semester) {
+    return null;
+  }
+  const explicitYear = findYear(text, today);
+  const year = explicitYear ?? (semester > currentSemester ? today.getFullYear() - 1 : today.getFullYear());
+  return semesterRange(year, semester);
+}
+
+/**
+ * "ano passado", "ano anterior", "este ano", "ano atual"
+ * (meses e feriados com "do ano passado" são tratados pelas próprias regras)
+ */
+function matchYear(text: string, today: Date): DateRange | null {
+  if (new RegExp(`\\b(${MONTH_PATTERN})\\b`).test(text)) {
+    return null;
+  }
+  if (/\bano (passado|anterior)\b/.test(text)) {
+    return yearRange(today.getFullYear() - 1);
+  }
+  if (/\b((n?est|n?ess)e ano|ano atual)\b/.test(text)) {
+    return yearRange(today.getFullYear());
+  }
+  return null;
+}
+
+/**
+ * Data única: "10/03/2024", "10/03", "2024-03-10", "10 de março"
+ */
+function matchExplicitDate(text: string, today: Date): DateRange | null {
+  const match = text.match(new RegExp(`\\b(${DATE_TOKEN})\\b`));
+  if (!match?.[1]) {
+    return null;
+  }
+  const date = parseDateToken(match[1], today);
+  if (!date) {
+    return null;
+  }
+  const day = formatLocalDate(date);
+  return { start: day, end: day };
+}
+
+/**
+ * Mês: "março", "março de 2024", "março do ano passado", "03/2024"
+ * O "02/2024" de uma data inválida ("31/02/2024") não vira o mês inteiro
+ */
+function matchMonthName(text: string, today: Date): DateRange | null {
+  const numeric = text.match(new RegExp(`(?<!\\d\\/)\\b(\\d{1,2})\\/(${YEAR_PATTERN})\\b`));
+  if (numeric?.[1] && numeric[2]) {
+    const month = Number(numeric[1]);
+    return month >= 1 && month <= 12 ? monthRange(Number(numeric[2]), month) : null;
+  }
+
+  const match = text.match(new RegExp(`\\b(${MONTH_TOKEN})\\b`));
+  if (!match?.[1]) {
+    return null;
+  }
+  if (/\bdo ano (passado|anterior)\b/.test(text) && !new RegExp(YEAR_PATTERN).test(match[1])) {
+    const month = MONTHS[match[1].split(/[\s/]/)[0] ?? ""] ?? 1;
+    return monthRange(today.getFullYear() - 1, month);
+  }
+  return parseMonthToken(match[1], today);
+}
+
+/**
+ * Ano: "em 2023", "de 2023", "no ano de 2023", "durante 2023" ou só "2023"
+ * Só depois de preposição (ou sozinho): "gastos de mais de 2000 reais" não é o ano 2000
+ */
+function matchExplicitYear(text: string, today: Date): DateRange | null {
+  const year = findYearToken(text, `(?:\\b(?:em|de|no ano de|durante|ano)\\s+|^)`);
+  return year !== null ? yearRange(year) : null;
+}
+
+/**
+ * Primeiro ano após "prefix" que não seja um valor em dinheiro
+ * @param prefix Trecho de regex exigido antes do ano
+ */
+function findYearToken(text: string, prefix: string): number | null {
+  for (const match of text.matchAll(new RegExp(`${prefix}(${YEAR_PATTERN})\\b`, "g"))) {
+    const yearIndex = match.index + match[0].length - (match[1]?.length ?? 0);
+    const before = text.slice(0, yearIndex);
+    const after = text.slice(match.index + match[0].length);
+    if (!AMOUNT_BEFORE_PATTERN.test(before) && !AMOUNT_AFTER_PATTERN.test(after)) {
+      return Number(match[1]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Converte uma data explícita; sem ano, usa a ocorrência mais recente até "reference"
+ */
+function parseDateToken(token: string, reference: Date): Date | null {
+  let year: number | null = null;
+  let month: number;
+  let day: number;
+
+  const iso = token.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const numeric = token.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+  const written = token.match(new RegExp(`^(\\d{1,2}) de (${MONTH_PATTERN})(?: de (${YEAR_PATTERN}))?$`));
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [day, month] = [Number(numeric[1]), Number(numeric[2])];
+    if (numeric[3]) {
+      year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    }
+  } else if (written) {
+    [day, month] = [Number(written[1]), MONTHS[written[2] ?? ""] ?? 0];
+    year = written[3] ? Number(written[3]) : null;
+  } else {
+    return null;
+  }
+
+  const resolvedYear = year ?? reference.getFullYear();
+  let date = new Date(resolvedYear, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null; // Data inexistente (ex: 31/02)
+  }
+  if (year === null && date > reference) {
+    date = new Date(resolvedYear - 1, month - 1, day);
+  }
+  return date;
+}
+
+/**
+ * Converte um mês com ano opcional; sem ano, usa a ocorrência mais recente até "reference"
+ */
+function parseMonthToken(token: string, reference: Date): DateRange | null {
+  const match = token.match(new RegExp(`^(${MONTH_PATTERN})(?:\\s*(?:de|\\/)?\\s*(${YEAR_PATTERN}))?$`));
+  const month = match?.[1] ? MONTHS[match[1]] : undefined;
+  if (!month) {
+    return null;
+  }
+  if (match?.[2]) {
+    return monthRange(Number(match[2]), month);
+  }
+  const year = month > reference.getMonth() + 1 ? reference.getFullYear() - 1 : reference.getFullYear();
+  return monthRange(year, month);
+}
+
+/**
+ * Ano explícito em expressões como "carnaval de 2023" ou "1º trimestre do ano passado"
+ */
+function findYear(text: string, today: Date): number | null {
+  const explicit = findYearToken(text, "\\b");
+  if (explicit !== null) {
+    return explicit;
+  }
+  if (/\bdo ano (passado|anterior)\b/.test(text)) {
+    return today.getFullYear() - 1;
+  }
+  if (/\bd(est|ess)e ano\b/.test(text)) {
+    return today.getFullYear();
+  }
+  return null;
+}
+
+/**
+ * Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Black Friday: dia seguinte à quarta quinta-feira de novembro
+ */
+function blackFriday(year: number): Date {
+  const firstOfNovember = new Date(year, 10, 1);
+  const firstThursday = 1 + ((4 - firstOfNovember.getDay() + 7) % 7);
+  return new Date(year, 10, firstThursday + 21 + 1);
+}
+
+/**
+ * Mês inteiro (aceita meses fora de 1-12, ex: 0 = dezembro do ano anterior)
+ */
+function monthRange(year: number, month: number): DateRange {
+  return {
+    start: formatLocalDate(new Date(year, month - 1, 1)),
+    end: formatLocalDate(new Date(year, month, 0)),
+  };
+}
+
+/**
+ * Trimestre inteiro (aceita 0 = quarto trimestre do ano anterior)
+ */
+function quarterRange(year: number, quarter: number): DateRange {
+  return {
+    start: formatLocalDate(new Date(year, (quarter - 1) * 3, 1)),
+    end: formatLocalDate(new Date(year, quarter * 3, 0)),
+  };
+}
+
+/**
+ * Semestre inteiro (aceita 0 = segundo semestre do ano anterior)
+ */
+function semesterRange(year: number, semester: number): DateRange {
+  return {
+    start: formatLocalDate(new Date(year, (semester - 1) * 6, 1)),
+    end: formatLocalDate(new Date(year, semester * 6, 0)),
+  };
+}
+
+function yearRange(year: number): DateRange {
+  return { start: `${year}-01-01`, end: `${year}-12-31` };
+}
+
+/**
+ * Semana de calendário (segunda a domingo) que contém a data
+ */
+function calendarWeek(date: Date): DateRange {
+  const monday = addDays(date, -((date.getDay() + 6) % 7));
+  return { start: formatLocalDate(monday), end: formatLocalDate(addDays(monday, 6)) };
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function parseNumber(value: string): number {
+  return NUMBER_WORDS[value] ?? parseInt(value, 10);
+}
+
+function endOfYear(year: number): Date {
+  return new Date(year, 11, 31);
+}
+
+/**
+ * Minúsculas, sem acentos e sem ordinais (º/ª)
+ */
+function normalizeExpression(expression: string): string {
+  return expression
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[ºª°]/g, "o")
+    .replace(/[?!.,;]+(\s|$)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Desloca um intervalo de datas para o período anterior (-1) ou seguinte (+1)
+ *
+ * Intervalos de meses inteiros são deslocados por mês ("março" → "fevereiro");
+ * os demais são deslocados pela própria duração ("últimos 7 dias" → 7 dias antes).
+ */
+export function shiftDateRange(
+  start: string,
+  end: string,
+  direction: -1 | 1
+): { start: string; end: string } {
+  const [startYear, startMonth, startDay] = start.split("-").map(Number) as [number, number, number];
+  const [endYear, endMonth, endDay] = end.split("-").map(Number) as [number, number, number];
+
+  const isWholeMonths = startDay === 1 && endDay === new Date(endYear, endMonth, 0).getDate();
+  if (isWholeMonths) {
+    const months = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+    const offset = months * direction;
+    const newStart = new Date(startYear, startMonth - 1 + offset, 1);
+    const newEnd = new Date(endYear, endMonth + offset, 0);
+    return { start: formatLocalDate(newStart), end: formatLocalDate(newEnd) };
+  }
+
+  const startDate = new Date(startYear, startMonth - 1, startDay);
+  const endDate = new Date(endYear, endMonth - 1, endDay);
+  const days = Math.round((endDate.getTime() - startDate.getTime()) / 86_400_000) + 1;
+  startDate.setDate(startDate.getDate() + days * direction);
+  endDate.setDate(endDate.getDate() + days * direction);
+  return { start: formatLocalDate(startDate), end: formatLocalDate(endDate) };
+}
+
+/**
+ * Formata uma data local como YYYY-MM-DD (sem conversão para UTC)
+ */
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
 /**
  * Valida se uma string está no formato ISO 8601 (YYYY-MM-DD)
+ * Recusa datas inexistentes como 2024-02-30
  */
 export function isValidISO8601Date(dateString: string): boolean {
   const regex = /^\d{4}-\d{2}-\d{2}$/;
   if (!regex.test(dateString)) {
     return false;
   }
-  
-  const date = new Date(dateString);
-  return date instanceof Date && !isNaN(date.getTime());
+
+  const [year, month, day] = dateString.split("-").map(Number) as [number, number, number];
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
 }
 
 /**
  * Formata uma data para ISO 8601 (YYYY-MM-DD)
+ * Usa a data local, para não mudar de dia na conversão para UTC
  */
 export function toISO8601(date: Date): string {
-  return date.toISOString().split('T')[0];
+  return formatLocalDate(date);
 }
 
 /**
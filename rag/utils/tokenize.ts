@@ -0,0 +1,28 @@
+/**
+ * Tokenização comum à busca por palavras-chave (BM25) e ao reranker lexical
+ * Os dois lados precisam ver os mesmos termos para uma pergunta e um chunk
+ */
+
+/**
+ * Palavras sem valor de busca (após normalização)
+ * Inclui os verbos genéricos de gasto: aparecem em quase toda pergunta e
+ * em quase toda transação, sem distinguir uma da outra
+ */
+export const STOPWORDS: ReadonlySet<string> = new Set([
+  "a", "o", "as", "os", "de", "da", "do", "das", "dos", "em", "no", "na", "nos", "nas",
+  "e", "ou", "um", "uma", "com", "por", "para", "pra", "que", "se", "me", "eu", "meu", "minha",
+  "meus", "minhas", "quanto", "quantos", "qual", "quais", "como", "isso", "sobre",
+  "gastei", "gastos", "gasto",
+]);
+
+/**
+ * Termos em minúsculas, sem acentos e sem stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
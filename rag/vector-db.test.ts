@@ -0,0 +1,251 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { Table } from "@lancedb/lancedb";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHashingEmbedder, generateEmbedding, setEmbeddingProvider } from "./embeddings.ts";
+import { embedChunks, type ChunkDraft } from "./ingestion/common.ts";
+import { aggregateByFilter } from "./aggregation.ts";
+import { eq, range } from "./filters.ts";
+import {
+  closeLanceDB,
+  countChunks,
+  deleteChunks,
+  hybridSearchChunks,
+  initLanceDB,
+  insertChunks,
+  listChunks,
+  scanChunks,
+  searchChunks,
+  SHARED_SCOPE,
+  upsertChunks,
+  validateUserScope,
+  type UserScope,
+} from "./vector-db.ts";
+
+const ALICE: UserScope = { userId: "alice" };
+const BOB: UserScope = { userId: "bob" };
+
+const ALICE_CHUNKS: ChunkDraft[] = [
+  {
+    id: "tx-1",
+    text: "Gasto com farmácia: R$ 80,00 na Drogasil.",
+    type: "transacional",
+    date: "2025-03-02",
+    source: "extrato",
+    amount: -80,
+    category: "saude",
+  },
+  {
+    id: "tx-2",
+    text: "Gasto com cinema: R$ 45,00 no shopping.",
+    type: "transacional",
+    date: "2025-03-08",
+    source: "extrato",
+    amount: -45,
+    category: "lazer",
+  },
+];
+
+const GUIDE: ChunkDraft = {
+  id: "guia-1",
+  text: "O que é Selic? A Selic é a taxa básica de juros da economia brasileira.",
+  type: "educacao",
+  date: "2025-01-01",
+  source: "guia-juros#selic",
+};
+
+let dbPath: string;
+
+beforeAll(async () => {
+  setEmbeddingProvider(createHashingEmbedder());
+  dbPath = await mkdtemp(join(tmpdir(), "vector-db-test-"));
+  await initLanceDB(dbPath);
+  await insertChunks(ALICE, await embedChunks(ALICE_CHUNKS));
+  await insertChunks(SHARED_SCOPE, await embedChunks([GUIDE]));
+});
+
+afterAll(async () => {
+  await closeLanceDB();
+  await rm(dbPath, { recursive: true, force: true });
+});
+
+describe("isolamento entre usuários", () => {
+  test("busca vetorial e híbrida de outro usuário não vê os chunks", async () => {
+    const embedding = await generateEmbedding("gasto com farmácia");
+
+    const aliceHits = await searchChunks(ALICE, embedding, eq("type", "transacional"), 10);
+    expect(aliceHits.map((hit) => hit.id).sort()).toEqual(["tx-1", "tx-2"]);
+
+    expect(await searchChunks(BOB, embedding, eq("type", "transacional"), 10)).toEqual([]);
+    expect(await hybridSearchChunks(BOB, embedding, ["farmacia"], eq("type", "transacional"), 10)).toEqual([]);
+  });
+
+  test("contagem, listagem e varredura são por usuário", async () => {
+    const transactions = eq("type", "transacional");
+
+    expect(await countChunks(ALICE, transactions)).toBe(2);
+    expect(await countChunks(BOB, transactions)).toBe(0);
+    expect(await listChunks(BOB, { filter: transactions })).toEqual([]);
+    expect(await scanChunks(BOB, transactions)).toEqual([]);
+  });
+
+  test("remoção por outro usuário não apaga nada", async () => {
+    expect(await deleteChunks(BOB, ["tx-1", "tx-2"])).toBe(0);
+    expect(await deleteChunks(BOB, eq("type", "transacional"))).toBe(0);
+    expect(await countChunks(ALICE, eq("type", "transacional"))).toBe(2);
+  });
+
+  test("o mesmo id em outro usuário é um chunk independente", async () => {
+    await insertChunks(BOB, await embedChunks([{ ...ALICE_CHUNKS[0]!, text: "Gasto com padaria: R$ 12,00." }]));
+
+    const bobRows = await listChunks(BOB, { filter: eq("type", "transacional") });
+    expect(bobRows.map((row) => [row.id, row.userId])).toEqual([["tx-1", "bob"]]);
+    expect((await scanChunks(ALICE, eq("id", "tx-1")))[0]?.text).toContain("farmácia");
+
+    expect(await deleteChunks(BOB, ["tx-1"])).toBe(1);
+    expect(await countChunks(ALICE, eq("type", "transacional"))).toBe(2);
+  });
+});
+
+describe("base de conhecimento compartilhada", () => {
+  test("entra nas leituras de todos os usuários", async () => {
+    const embedding = await generateEmbedding("o que é selic");
+
+    for (const user of [ALICE, BOB]) {
+      const hits = await hybridSearchChunks(user, embedding, ["selic"], eq("type", "educacao"), 5);
+      expect(hits.map((hit) => [hit.id, hit.userId])).toEqual([["guia-1", SHARED_SCOPE.userId]]);
+      expect(await countChunks(user, eq("type", "educacao"))).toBe(1);
+    }
+  });
+
+  test("fica fora das leituras só do usuário", async () => {
+    expect(await scanChunks(BOB, eq("type", "educacao"), { shared: false })).toEqual([]);
+  });
+
+  test("usuários não removem nem sobrescrevem os guias", async () => {
+    expect(await deleteChunks(ALICE, ["guia-1"])).toBe(0);
+
+    // Mesmo conteúdo no escopo do usuário não é tratado como duplicado do guia
+    const result = await insertChunks(ALICE, await embedChunks([GUIDE]));
+    expect(result.inserted).toBe(1);
+    expect(await deleteChunks(ALICE, ["guia-1"])).toBe(1);
+    expect(await countChunks(BOB, eq("type", "educacao"))).toBe(1);
+  });
+
+  test("fica fora dos totais de gastos do usuário", async () => {
+    const shared = { ...ALICE_CHUNKS[0]!, id: "exemplo-1", text: "Exemplo: gasto de R$ 500,00.", amount: -500 };
+    await insertChunks(SHARED_SCOPE, await embedChunks([shared]));
+
+    try {
+      const aggregate = await aggregateByFilter(ALICE, eq("type", "transacional"));
+      expect(aggregate).toMatchObject({ count: 2, sum: 125 });
+    } finally {
+      await deleteChunks(SHARED_SCOPE, ["exemplo-1"]);
+    }
+  });
+
+  test("o escopo compartilhado não é acessível por id de usuário", () => {
+    expect(() => validateUserScope({ userId: SHARED_SCOPE.userId })).toThrow("userId inválido");
+    expect(() => validateUserScope(SHARED_SCOPE)).not.toThrow();
+  });
+});
+
+describe("upsertChunks", () => {
+  const CAROL: UserScope = { userId: "carol" };
+  const rows = async () =>
+    (await listChunks(CAROL, { shared: false })).map((row) => [row.id, row.amount, row.category]);
+
+  test("substitui a versão gravada, inclusive quando só o valor ou a categoria mudam", async () => {
+    const [pharmacy, cinema] = ALICE_CHUNKS as [ChunkDraft, ChunkDraft];
+    await upsertChunks(CAROL, await embedChunks([pharmacy, { ...cinema, category: undefined }]));
+
+    const result = await upsertChunks(
+      CAROL,
+      await embedChunks([{ ...pharmacy, amount: -85.5 }, { ...cinema, category: "lazer" }])
+    );
+
+    expect(result).toEqual({ inserted: 0, updated: 2, skipped: 0 });
+    expect(await rows()).toEqual([
+      ["tx-2", -45, "lazer"],
+      ["tx-1", -85.5, "saude"],
+    ]);
+  });
+
+  test("se a escrita falhar, as versões anteriores voltam para a tabela", async () => {
+    const before = await rows();
+    const add = spyOn(Table.prototype, "add").mockImplementationOnce(() => Promise.reject(new Error("disco cheio")));
+
+    try {
+      const changed = ALICE_CHUNKS.map((chunk) => ({ ...chunk, amount: -1 }));
+      await expect(upsertChunks(CAROL, await embedChunks(changed))).rejects.toThrow("disco cheio");
+    } finally {
+      add.mockRestore();
+    }
+
+    expect(await rows()).toEqual(before);
+    const [restored] = await searchChunks(CAROL, await generateEmbedding(ALICE_CHUNKS[0]!.text), eq("id", "tx-1"), 1);
+    expect(restored?._distance).toBeCloseTo(0, 5);
+  });
+});
+
+describe("escritas repetíveis", () => {
+  const DAVE: UserScope = { userId: "dave" };
+  const transaction = (id: string, text: string, date: string, source: string, amount: number): ChunkDraft => ({
+    id,
+    text,
+    type: "transacional",
+    date,
+    source,
+    amount,
+  });
+  const drafts = [
+    transaction("d-1", "Gasto com mercado: R$ 300,00.", "2025-03-01", "extrato", -300),
+    transaction("d-2", "Gasto com padaria: R$ 20,00.", "2025-03-03", "extrato", -20),
+    transaction("d-3", "Salário de março.", "2025-03-03", "extrato", 5000),
+    transaction("d-4", "Gasto com luz: R$ 150,00.", "2025-02-10", "conta", -150),
+  ];
+
+  test("upsert conta inseridos, atualizados e ignorados", async () => {
+    expect(await upsertChunks(DAVE, await embedChunks(drafts))).toEqual({ inserted: 4, updated: 0, skipped: 0 });
+
+    const again = await embedChunks([...drafts.slice(0, 3), { ...drafts[3]!, amount: -160 }]);
+    expect(await upsertChunks(DAVE, again)).toEqual({ inserted: 0, updated: 1, skipped: 3 });
+    expect(await countChunks(DAVE, eq("type", "transacional"))).toBe(4);
+  });
+
+  test("upsert recusa ids repetidos no lote", async () => {
+    const chunks = await embedChunks([drafts[0]!, { ...drafts[1]!, id: "d-1" }]);
+
+    await expect(upsertChunks(DAVE, chunks)).rejects.toThrow("Id repetido no lote: d-1");
+  });
+
+  test("insert ignora conteúdo já gravado e repetido no lote", async () => {
+    const chunks = await embedChunks([
+      { ...drafts[0]!, id: "outro-id" }, // Mesmo conteúdo de d-1, já gravado
+      { ...drafts[1]!, id: "d-5", text: "Gasto com farmácia: R$ 35,00." },
+      { ...drafts[1]!, id: "d-6", text: "Gasto com farmácia: R$ 35,00." },
+    ]);
+
+    expect(await insertChunks(DAVE, chunks)).toEqual({ inserted: 1, updated: 0, skipped: 2 });
+    const sameDay = await scanChunks(DAVE, eq("date", "2025-03-03"), { shared: false });
+    expect(sameDay.map((row) => row.id).sort()).toEqual(["d-2", "d-3", "d-5"]);
+  });
+
+  test("listagem em ordem de data (mais recente primeiro) e id, com paginação", async () => {
+    const ids = async (options: { limit?: number; offset?: number } = {}) =>
+      (await listChunks(DAVE, { shared: false, ...options })).map((row) => row.id);
+
+    expect(await ids()).toEqual(["d-2", "d-3", "d-5", "d-1", "d-4"]);
+    expect(await ids({ limit: 2 })).toEqual(["d-2", "d-3"]);
+    expect(await ids({ limit: 2, offset: 2 })).toEqual(["d-5", "d-1"]);
+    expect(await ids({ offset: 4 })).toEqual(["d-4"]);
+  });
+
+  test("remoção por filtro", async () => {
+    expect(await deleteChunks(DAVE, range("amount", { gte: 0 }))).toBe(1);
+    expect(await deleteChunks(DAVE, eq("source", "conta"))).toBe(1);
+
+    expect((await listChunks(DAVE, { shared: false })).map((row) => row.id)).toEqual(["d-2", "d-5", "d-1"]);
+  });
+});
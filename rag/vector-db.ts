@@ -1,22 +1,47 @@
 /**
  * Setup e operações do LanceDB
  * Vector database para armazenar chunks financeiros com embeddings
+ *
+ * Os dados de todos os usuários ficam na mesma tabela, separados pela coluna
+ * user_id. Toda operação exportada recebe um UserScope e o filtro do usuário
+ * é aplicado aqui, em todas as consultas: não há como ler ou alterar linhas
+ * de outro usuário a partir deste módulo.
+ *
+ * A base de conhecimento compartilhada (SHARED_SCOPE: conteúdo educativo do
+ * seed e guias importados pela linha de comando) entra em todas as leituras;
+ * escritas e remoções só alcançam as linhas do próprio escopo.
  */
 
 import * as lancedb from "@lancedb/lancedb";
 import { isValidISO8601Date } from "./utils/temporal.ts";
+import { getEmbeddingProvider } from "./embeddings.ts";
+import { isSpendingCategory, SPENDING_CATEGORIES, type SpendingCategory } from "./categories.ts";
+import { CHUNK_TYPES, compileFilter, inList, isChunkType, type ChunkFilter, type ChunkType } from "./filters.ts";
+import { buildKeywordIndex, searchKeywordIndex, type KeywordIndex } from "./keyword-index.ts";
+import {
+  chunkSchema,
+  detectSchemaVersion,
+  LOCAL_USER_ID,
+  migrateTable,
+  SCHEMA_VERSION,
+  SHARED_USER_ID,
+  USER_COLUMN,
+  type MigrationContext,
+} from "./table-schema.ts";
 
 /**
  * Schema de um chunk financeiro
  */
 export interface FinancialChunk {
-  id: string;
+  id: string; // Único por usuário
+  userId: string; // Dono do chunk (ver UserScope)
   embedding: number[];
   text: string;
-  type: "transacional" | "insight" | "educacao";
+  type: ChunkType;
   date: string; // ISO 8601: YYYY-MM-DD - OBRIGATÓRIO
   source: string;
-  amount?: number; // Opcional, para transações
+  amount?: number; // Opcional, para transações: negativo = saída (gasto), positivo = entrada
+  category?: SpendingCategory; // Opcional, para transações (ex: "alimentacao")
 }
 
 /**
@@ -24,59 +49,276 @@ export interface FinancialChunk {
  */
 export interface SearchResult {
   id: string;
+  userId: string;
   text: string;
-  type: "transacional" | "insight" | "educacao";
+  type: ChunkType;
   date: string;
   source: string;
   amount?: number;
+  category?: SpendingCategory;
   _distance?: number; // Distância do embedding (similaridade)
+  _score?: number; // Pontuação BM25 ou, na busca híbrida, pontuação da fusão (RRF)
+  _relevance?: number; // Relevância atribuída pelo reranker (0 a 1)
+}
+
+/**
+ * Metadados gravados junto com a tabela
+ * Garante que vetores armazenados e vetores de consulta venham do mesmo modelo
+ * e registra a versão do schema (ver table-schema.ts)
+ */
+export interface TableMetadata {
+  embeddingModel: string;
+  embeddingDimension: number;
+  schemaVersion: number;
 }
 
+/**
+ * Opções de leitura/escrita que dependem do modelo de embedding
+ */
+export interface EmbeddingModelOptions {
+  embeddingModel?: string; // Padrão: modelo do provedor de embeddings ativo
+}
+
+/**
+ * Dono dos dados de uma operação
+ * As leituras só enxergam as linhas do usuário e as escritas gravam com o id dele
+ */
+export interface UserScope {
+  userId: string;
+}
+
+/**
+ * Chunk a gravar: o dono vem do escopo da escrita (userId, se informado, deve ser o mesmo)
+ */
+export type NewChunk = Omit<FinancialChunk, "userId"> & { userId?: string };
+
+/**
+ * Resultado de uma escrita (insertChunks/upsertChunks)
+ */
+export interface WriteResult {
+  inserted: number;
+  updated: number; // Chunks com o mesmo id substituídos (apenas upsert)
+  skipped: number; // Duplicados (mesmo conteúdo) ou sem alteração
+}
+
+/**
+ * Opções das leituras que varrem a tabela (scanChunks, listChunks)
+ */
+export interface ScanOptions {
+  shared?: boolean; // Inclui a base compartilhada (padrão: true)
+}
+
+/**
+ * Opções de listChunks
+ */
+export interface ListChunksOptions extends ScanOptions {
+  filter?: ChunkFilter;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Escopo da base de conhecimento compartilhada
+ * Só o código tem acesso a ele (seed, importação de guias): o id não passa
+ * em validateUserScope, então não chega pelo cabeçalho X-User-Id
+ */
+export const SHARED_SCOPE: UserScope = Object.freeze({ userId: SHARED_USER_ID });
+
 let db: lancedb.Database | null = null;
 let table: lancedb.Table | null = null;
+let tableMetadata: TableMetadata | null = null;
+const keywordIndexes = new Map<string, KeywordIndex>(); // Por usuário; reconstruído sob demanda após cada escrita
 
-const DB_PATH = "./data/lancedb";
+const DEFAULT_DB_PATH = "./data/lancedb";
 const TABLE_NAME = "financial_chunks";
 
+// Ids de usuário entram no SQL dos filtros: só caracteres seguros
+const USER_ID_PATTERN = /^[A-Za-z0-9._@-]{1,128}$/;
+
+let dbPath = Bun.env.RAG_DB_PATH ?? DEFAULT_DB_PATH;
+
+const RRF_K = 60; // Constante de suavização do RRF (valor usual da literatura)
+const HYBRID_CANDIDATE_FACTOR = 4; // Candidatos por resultado pedido, em cada lado da busca híbrida
+
 /**
- * Inicializa o LanceDB e abre a tabela (se existir)
+ * Inicializa o LanceDB e abre a tabela (se existir), aplicando as migrações de schema pendentes
  * A tabela será criada automaticamente no primeiro insert
+ * @param path Diretório do database (padrão: RAG_DB_PATH ou ./data/lancedb);
+ *   vale também para as inicializações seguintes
  */
-export async function initLanceDB(): Promise<void> {
+export async function initLanceDB(path: string = dbPath): Promise<void> {
+  dbPath = path;
+  keywordIndexes.clear();
   try {
     // Conecta ao database (cria se não existir)
-    db = await lancedb.connect(DB_PATH);
+    db = await lancedb.connect(dbPath);
 
     // Tenta abrir a tabela existente
+    let existing: lancedb.Table | null = null;
     try {
-      table = await db.openTable(TABLE_NAME);
+      existing = await db.openTable(TABLE_NAME);
       console.log(`Tabela ${TABLE_NAME} aberta com sucesso`);
     } catch (error) {
       // Se a tabela não existe, será criada no primeiro insert
       console.log(`Tabela ${TABLE_NAME} não encontrada. Será criada no primeiro insert.`);
-      table = null;
+    }
+
+    table = null;
+    tableMetadata = null;
+    if (existing) {
+      // Só expõe a tabela depois de migrada (uma versão mais nova é recusada)
+      const context: MigrationContext = {
+        db,
+        tableName: TABLE_NAME,
+        table: existing,
+        metadata: await loadTableMetadata(existing),
+      };
+      await migrateTable(context, saveTableMetadata);
+      table = context.table;
+      tableMetadata = context.metadata;
     }
   } catch (error) {
+    db = null;
     console.error("Erro ao inicializar LanceDB:", error);
     throw new Error(`Falha ao inicializar LanceDB: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+function metadataPath(): string {
+  return `${dbPath}/${TABLE_NAME}.meta.json`;
+}
+
 /**
- * Valida um chunk antes de inserir
+ * Escopo do usuário local (RAG_USER_ID ou "local"), para as ferramentas de linha de comando
  */
-function validateChunk(chunk: FinancialChunk): void {
-  if (!chunk.id) {
-    throw new Error("Chunk deve ter um id");
+export function localUserScope(): UserScope {
+  return { userId: Bun.env.RAG_USER_ID ?? LOCAL_USER_ID };
+}
+
+/**
+ * Valida o escopo de uma operação
+ */
+export function validateUserScope(scope: UserScope): void {
+  if (scope === SHARED_SCOPE) {
+    return;
+  }
+  if (!scope || typeof scope.userId !== "string" || !USER_ID_PATTERN.test(scope.userId)) {
+    throw new Error(
+      `userId inválido: ${String(scope?.userId)}. Use de 1 a 128 caracteres entre letras, números, ".", "_", "@" e "-"`
+    );
+  }
+}
+
+/**
+ * WHERE de uma operação: sempre restrito ao usuário do escopo e, nas
+ * leituras (shared), também à base compartilhada
+ */
+function scopedWhere(scope: UserScope, filter?: ChunkFilter, shared: boolean = false): string {
+  validateUserScope(scope);
+  const owner =
+    shared && scope.userId !== SHARED_USER_ID
+      ? `(${USER_COLUMN} = '${scope.userId}' OR ${USER_COLUMN} = '${SHARED_USER_ID}')`
+      : `${USER_COLUMN} = '${scope.userId}'`;
+  return filter ? `${owner} AND (${compileFilter(filter)})` : owner;
+}
+
+/**
+ * Descarta os índices BM25 que incluem as linhas do escopo
+ * (todos, se o escopo for a base compartilhada)
+ */
+function invalidateKeywordIndexes(scope: UserScope): void {
+  if (scope.userId === SHARED_USER_ID) {
+    keywordIndexes.clear();
+  } else {
+    keywordIndexes.delete(scope.userId);
+  }
+}
+
+/**
+ * Atribui os chunks ao usuário do escopo
+ * Recusa chunks marcados com outro dono
+ */
+function ownChunks(scope: UserScope, chunks: NewChunk[]): FinancialChunk[] {
+  validateUserScope(scope);
+  return chunks.map((chunk) => {
+    if (chunk.userId !== undefined && chunk.userId !== scope.userId) {
+      throw new Error(`Chunk ${chunk.id} pertence a outro usuário (${chunk.userId})`);
+    }
+    return { ...chunk, userId: scope.userId };
+  });
+}
+
+/**
+ * Lê os metadados da tabela
+ * Tabelas antigas (sem arquivo de metadados) só podem ter sido criadas com
+ * nomic-embed-text; a dimensão é lida do schema e o arquivo é gravado.
+ * Sem schemaVersion (anteriores ao versionamento), a versão é deduzida das colunas.
+ */
+async function loadTableMetadata(existingTable: lancedb.Table): Promise<TableMetadata> {
+  const file = Bun.file(metadataPath());
+  const stored = (await file.exists()) ? ((await file.json()) as Partial<TableMetadata>) : null;
+  if (stored?.schemaVersion !== undefined) {
+    return stored as TableMetadata;
+  }
+
+  const schema = await existingTable.schema();
+  const vectorField = schema.fields.find((field) => field.name === "vector");
+  const metadata: TableMetadata = {
+    embeddingModel: stored?.embeddingModel ?? "nomic-embed-text",
+    embeddingDimension:
+      stored?.embeddingDimension ?? (vectorField?.type as { listSize?: number } | undefined)?.listSize ?? 768,
+    schemaVersion: detectSchemaVersion(schema),
+  };
+  await saveTableMetadata(metadata);
+  return metadata;
+}
+
+async function saveTableMetadata(metadata: TableMetadata): Promise<void> {
+  await Bun.write(metadataPath(), JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * Garante que vetores do modelo/dimensão informados são compatíveis com a tabela
+ */
+function assertEmbeddingCompatible(embeddingModel: string, dimension: number): void {
+  if (!tableMetadata) {
+    return;
   }
+  if (tableMetadata.embeddingModel !== embeddingModel) {
+    throw new Error(
+      `Modelo de embedding incompatível: tabela usa ${tableMetadata.embeddingModel}, recebido ${embeddingModel}`
+    );
+  }
+  if (tableMetadata.embeddingDimension !== dimension) {
+    throw new Error(
+      `Dimensão de embedding incompatível: tabela usa ${tableMetadata.embeddingDimension}, recebido ${dimension}`
+    );
+  }
+}
+
+/**
+ * Valida um chunk antes de inserir
+ */
+export function validateChunk(chunk: NewChunk): void {
   if (!chunk.embedding || chunk.embedding.length === 0) {
     throw new Error("Chunk deve ter um embedding");
   }
+  validateChunkData(chunk);
+}
+
+/**
+ * Valida os campos de um chunk, exceto o embedding
+ * Usado pelos importadores antes de gerar embeddings
+ */
+export function validateChunkData(chunk: Omit<NewChunk, "embedding">): void {
+  if (!chunk.id) {
+    throw new Error("Chunk deve ter um id");
+  }
   if (!chunk.text || chunk.text.trim().length === 0) {
     throw new Error("Chunk deve ter texto");
   }
-  if (!chunk.type || !["transacional", "insight", "educacao"].includes(chunk.type)) {
-    throw new Error("Chunk deve ter um tipo válido: transacional, insight ou educacao");
+  if (!isChunkType(chunk.type)) {
+    throw new Error(`Chunk deve ter um tipo válido: ${CHUNK_TYPES.join(", ")}`);
   }
   if (!chunk.date) {
     throw new Error("Chunk deve ter uma data (campo obrigatório)");
@@ -87,47 +329,216 @@ function validateChunk(chunk: FinancialChunk): void {
   if (!chunk.source) {
     throw new Error("Chunk deve ter uma fonte");
   }
+  if (chunk.amount !== undefined && (typeof chunk.amount !== "number" || !Number.isFinite(chunk.amount))) {
+    throw new Error(`Valor inválido: ${JSON.stringify(chunk.amount)}. Deve ser um número (negativo = gasto)`);
+  }
+  if (chunk.category !== undefined && !isSpendingCategory(chunk.category)) {
+    throw new Error(`Categoria inválida: ${chunk.category}. Deve ser uma de: ${SPENDING_CATEGORIES.join(", ")}`);
+  }
+}
+
+/**
+ * Hash do conteúdo de um chunk (texto, tipo, data, fonte, valor e categoria)
+ * O id e o embedding não entram: o mesmo conteúdo com outro id é duplicado
+ */
+export function contentHash(chunk: Omit<NewChunk, "embedding" | "id">): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(
+    JSON.stringify([chunk.text, chunk.type, chunk.date, chunk.source, chunk.amount ?? null, chunk.category ?? null])
+  );
+  return hasher.digest("hex");
 }
 
 /**
- * Insere chunks no LanceDB
+ * Insere chunks do usuário no LanceDB
+ * Chunks com conteúdo já presente nos dados do usuário (ou repetido no lote)
+ * são ignorados (ver contentHash)
+ * @param scope Dono dos chunks
  * @param chunks Array de chunks para inserir
+ * @param options.embeddingModel Modelo que gerou os embeddings (padrão: provedor ativo)
  */
-export async function insertChunks(chunks: FinancialChunk[]): Promise<void> {
-  if (!db) {
-    await initLanceDB();
+export async function insertChunks(
+  scope: UserScope,
+  newChunks: NewChunk[],
+  options: EmbeddingModelOptions = {}
+): Promise<WriteResult> {
+  const chunks = ownChunks(scope, newChunks);
+  prepareWrite(chunks, options);
+  if (chunks.length === 0) {
+    return { inserted: 0, updated: 0, skipped: 0 };
   }
 
-  if (!db) {
-    throw new Error("Database não inicializado");
+  // Só linhas das mesmas datas podem ter o mesmo conteúdo
+  const dates = [...new Set(chunks.map((chunk) => chunk.date))];
+  const seen = new Set((await scanChunks(scope, inList("date", dates), { shared: false })).map(contentHash));
+  const fresh = chunks.filter((chunk) => {
+    const hash = contentHash(chunk);
+    if (seen.has(hash)) {
+      return false;
+    }
+    seen.add(hash);
+    return true;
+  });
+
+  await writeRows(scope, fresh, options);
+  return { inserted: fresh.length, updated: 0, skipped: chunks.length - fresh.length };
+}
+
+/**
+ * Insere ou substitui chunks do usuário pelo id
+ * Chunks já gravados com o mesmo conteúdo são ignorados; os alterados são
+ * substituídos. Rodar a mesma importação de novo não duplica nada.
+ * @param scope Dono dos chunks (ids de outros usuários nunca são tocados)
+ * @param chunks Chunks com ids únicos no lote
+ * @param options.embeddingModel Modelo que gerou os embeddings (padrão: provedor ativo)
+ */
+export async function upsertChunks(
+  scope: UserScope,
+  newChunks: NewChunk[],
+  options: EmbeddingModelOptions = {}
+): Promise<WriteResult> {
+  const chunks = ownChunks(scope, newChunks);
+  prepareWrite(chunks, options);
+  if (chunks.length === 0) {
+    return { inserted: 0, updated: 0, skipped: 0 };
+  }
+
+  const ids = chunks.map((chunk) => chunk.id);
+  const repeated = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (repeated) {
+    throw new Error(`Id repetido no lote: ${repeated}`);
+  }
+
+  const existing = new Map(
+    (await scanChunks(scope, inList("id", ids), { shared: false })).map(
+      (row) => [row.id, contentHash(row)] as const
+    )
+  );
+  const changed = chunks.filter((chunk) => existing.get(chunk.id) !== contentHash(chunk));
+  const updated = changed.filter((chunk) => existing.has(chunk.id)).map((chunk) => chunk.id);
+
+  // Esta versão do LanceDB não tem merge-insert nem apaga por conteúdo de forma
+  // confiável (IS NULL falha no delete): remove as versões antigas e regrava,
+  // com as anteriores guardadas para voltarem à tabela se a escrita falhar
+  const previous = await readStoredChunks(scope, updated);
+  if (updated.length > 0) {
+    await deleteChunks(scope, updated);
+  }
+  try {
+    await writeRows(scope, changed, options);
+  } catch (error) {
+    await restoreChunks(scope, previous, options, error);
+    throw error;
+  }
+  return {
+    inserted: changed.length - updated.length,
+    updated: updated.length,
+    skipped: chunks.length - changed.length,
+  };
+}
+
+/**
+ * Lê as linhas gravadas do usuário com os embeddings, para regravá-las
+ */
+async function readStoredChunks(scope: UserScope, ids: string[]): Promise<FinancialChunk[]> {
+  if (!table || ids.length === 0) {
+    return [];
   }
+  const rows = await table.query().where(scopedWhere(scope, inList("id", ids))).toArray();
+  return rows.map((row: any) => {
+    const { _distance, ...chunk } = toSearchResult(row);
+    return { ...chunk, embedding: Array.from(row.vector as ArrayLike<number>) };
+  });
+}
 
+/**
+ * Regrava as versões anteriores depois de uma escrita que falhou
+ * Se nem isso der certo, o erro diz quais chunks ficaram sem nenhuma versão
+ */
+async function restoreChunks(
+  scope: UserScope,
+  previous: FinancialChunk[],
+  options: EmbeddingModelOptions,
+  writeError: unknown
+): Promise<void> {
+  if (previous.length === 0) {
+    return;
+  }
+  try {
+    await writeRows(scope, previous, options);
+  } catch (error) {
+    const ids = previous.map((chunk) => chunk.id).join(", ");
+    const cause = writeError instanceof Error ? writeError.message : String(writeError);
+    throw new Error(`Falha ao gravar chunks (${cause}) e ao restaurar as versões anteriores; chunks removidos: ${ids}`);
+  }
+}
+
+/**
+ * Valida os chunks e a compatibilidade dos embeddings com a tabela
+ */
+function prepareWrite(chunks: FinancialChunk[], options: EmbeddingModelOptions): void {
   // Valida todos os chunks antes de inserir
   for (const chunk of chunks) {
     validateChunk(chunk);
   }
 
+  // Todos os vetores devem vir do mesmo modelo/dimensão da tabela
+  const embeddingModel = options.embeddingModel ?? getEmbeddingProvider().model;
+  const dimension = chunks[0]?.embedding.length ?? 0;
+  if (chunks.some((chunk) => chunk.embedding.length !== dimension)) {
+    throw new Error("Todos os chunks devem ter embeddings com a mesma dimensão");
+  }
+  assertEmbeddingCompatible(embeddingModel, dimension);
+}
+
+/**
+ * Grava as linhas (cria a tabela na primeira escrita)
+ */
+async function writeRows(
+  scope: UserScope,
+  chunks: FinancialChunk[],
+  options: EmbeddingModelOptions
+): Promise<void> {
+  if (chunks.length === 0) {
+    return;
+  }
+  if (!db) {
+    await initLanceDB();
+  }
+
+  if (!db) {
+    throw new Error("Database não inicializado");
+  }
+
+  const embeddingModel = options.embeddingModel ?? getEmbeddingProvider().model;
+
   try {
     // Mapeia chunks para o formato do LanceDB (renomeia "embedding" para "vector")
     const lancedbChunks = chunks.map((chunk) => ({
       id: chunk.id,
+      [USER_COLUMN]: chunk.userId,
       vector: chunk.embedding, // Renomeia para "vector" (padrão do LanceDB)
       text: chunk.text,
       type: chunk.type,
       date: chunk.date,
       source: chunk.source,
       amount: chunk.amount,
+      category: chunk.category,
     }));
 
     // Se a tabela não existe, cria com os primeiros dados
     if (!table) {
       console.log(`Criando tabela ${TABLE_NAME} com ${lancedbChunks.length} chunks iniciais...`);
-      table = await db.createTable(TABLE_NAME, lancedbChunks);
+      const embeddingDimension = chunks[0]!.embedding.length;
+      table = await db.createTable(TABLE_NAME, lancedbChunks, { schema: chunkSchema(embeddingDimension) });
+      tableMetadata = { embeddingModel, embeddingDimension, schemaVersion: SCHEMA_VERSION };
+      await saveTableMetadata(tableMetadata);
       console.log(`Tabela ${TABLE_NAME} criada com sucesso`);
     } else {
       // Adiciona novos chunks à tabela existente
       await table.add(lancedbChunks);
     }
+    invalidateKeywordIndexes(scope);
 
     // Cria índices escalares para melhor performance nas queries temporais
     try {
@@ -146,17 +557,23 @@ export async function insertChunks(chunks: FinancialChunk[]): Promise<void> {
 }
 
 /**
- * Busca chunks no LanceDB com pre-filtering
+ * Busca chunks do usuário (e da base compartilhada) no LanceDB com pre-filtering
+ * @param scope Usuário dono dos chunks
  * @param queryEmbedding Embedding da query para busca semântica
- * @param whereClause Cláusula WHERE SQL para pre-filtering (ex: "type = 'transacional' AND date >= '2024-03-01'")
+ * @param filter Filtro tipado para pre-filtering (ex: and(eq("type", "transacional"), range("date", { gte: "2024-03-01" })))
  * @param limit Número máximo de resultados (padrão: 5)
+ * @param options.embeddingModel Modelo que gerou o embedding da query (padrão: provedor ativo)
  * @returns Array de resultados da busca
  */
 export async function searchChunks(
+  scope: UserScope,
   queryEmbedding: number[],
-  whereClause?: string,
-  limit: number = 5
+  filter?: ChunkFilter,
+  limit: number = 5,
+  options: EmbeddingModelOptions = {}
 ): Promise<SearchResult[]> {
+  validateUserScope(scope);
+
   if (!db) {
     await initLanceDB();
   }
@@ -171,35 +588,24 @@ export async function searchChunks(
     return [];
   }
 
-  try {
-    // Especifica explicitamente a coluna "vector" para a busca vetorial
-    let query = table.search(queryEmbedding).column("vector");
-
-    // Aplica pre-filtering se fornecido
-    if (whereClause) {
-      // Converte filtros de string para formato SQL do LanceDB
-      // O LanceDB espera formato SQL, então precisamos ajustar a sintaxe
-      // Ex: "type = 'transacional' AND date >= '2024-03-01'" 
-      // → "type = 'transacional' AND date >= date '2024-03-01'"
-      const sqlWhere = whereClause.replace(/date\s*(>=|<=|>|<|=)\s*'([^']+)'/g, (match, op, date) => {
-        return `date ${op} date '${date}'`;
-      });
-      
-      query = query.where(sqlWhere);
-    }
+  // Recusa vetores de outro modelo: a busca devolveria resultados sem sentido
+  assertEmbeddingCompatible(
+    options.embeddingModel ?? getEmbeddingProvider().model,
+    queryEmbedding.length
+  );
 
-    const results = await query.limit(limit).toArray();
+  try {
+    // Especifica explicitamente a coluna "vector" para a busca vetorial;
+    // o pre-filtering sempre inclui o usuário
+    const results = await table
+      .search(queryEmbedding)
+      .column("vector")
+      .where(scopedWhere(scope, filter, true))
+      .limit(limit)
+      .toArray();
 
     // Mapeia resultados para o formato esperado
-    return results.map((result: any) => ({
-      id: result.id,
-      text: result.text,
-      type: result.type,
-      date: result.date,
-      source: result.source,
-      amount: result.amount,
-      _distance: result._distance,
-    })) as SearchResult[];
+    return results.map(toSearchResult);
   } catch (error) {
     console.error("Erro ao buscar chunks:", error);
     throw new Error(`Falha ao buscar chunks: ${error instanceof Error ? error.message : String(error)}`);
@@ -207,10 +613,206 @@ export async function searchChunks(
 }
 
 /**
- * Obtém a tabela atual (útil para operações avançadas)
+ * Busca híbrida: palavras-chave (BM25) + vetorial, combinadas por
+ * reciprocal rank fusion (RRF)
+ *
+ * Cada busca traz mais candidatos que o limite; a pontuação final de um chunk
+ * é a soma de 1 / (RRF_K + posição) nas listas em que aparece. Os dois lados
+ * usam o mesmo filtro, e o índice BM25 é construído só com as linhas do usuário
+ * e da base compartilhada.
+ * @param scope Usuário dono dos chunks
+ * @param queryEmbedding Embedding da query para a busca semântica
+ * @param keywords Palavras-chave da query (ver LanceDBFilters.searchKeywords)
+ * @param filter Filtro tipado para pre-filtering
+ * @param limit Número máximo de resultados (padrão: 5)
+ * @param options.embeddingModel Modelo que gerou o embedding da query (padrão: provedor ativo)
+ * @returns Resultados ordenados pela pontuação da fusão (em _score)
+ */
+export async function hybridSearchChunks(
+  scope: UserScope,
+  queryEmbedding: number[],
+  keywords: string[],
+  filter?: ChunkFilter,
+  limit: number = 5,
+  options: EmbeddingModelOptions = {}
+): Promise<SearchResult[]> {
+  const candidates = limit * HYBRID_CANDIDATE_FACTOR;
+  const vectorHits = await searchChunks(scope, queryEmbedding, filter, candidates, options);
+  if (!table) {
+    return [];
+  }
+
+  let keywordIndex = keywordIndexes.get(scope.userId);
+  if (!keywordIndex) {
+    keywordIndex = buildKeywordIndex(await scanChunks(scope));
+    keywordIndexes.set(scope.userId, keywordIndex);
+  }
+  const keywordHits = searchKeywordIndex(keywordIndex, keywords, filter, candidates);
+
+  // Ids são únicos por dono: a base compartilhada pode repetir um id do usuário
+  const fused = new Map<string, SearchResult>();
+  for (const hits of [vectorHits, keywordHits]) {
+    hits.forEach((hit, rank) => {
+      const key = `${hit.userId}/${hit.id}`;
+      const current = fused.get(key);
+      fused.set(key, {
+        ...hit,
+        _distance: current?._distance ?? hit._distance,
+        _score: (current?._score ?? 0) + 1 / (RRF_K + rank + 1),
+      });
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => (b._score ?? 0) - (a._score ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * Varre os chunks do usuário aplicando apenas o filtro (sem busca vetorial nem top-k)
+ * Usado para agregações determinísticas (somas, contagens) sobre todo o período
+ * @param scope Usuário dono dos chunks
+ * @param filter Filtro tipado (mesmo formato de searchChunks)
+ * @param options.shared Inclui a base compartilhada (padrão: true; false para só as linhas do usuário)
+ * @returns Todas as linhas que satisfazem o filtro (sem _distance)
+ */
+export async function scanChunks(
+  scope: UserScope,
+  filter?: ChunkFilter,
+  options: ScanOptions = {}
+): Promise<SearchResult[]> {
+  validateUserScope(scope);
+
+  if (!db) {
+    await initLanceDB();
+  }
+
+  if (!db) {
+    throw new Error("Database não inicializado");
+  }
+
+  if (!table) {
+    return [];
+  }
+
+  try {
+    const results = await table
+      .query()
+      .select(["id", USER_COLUMN, "text", "type", "date", "source", "amount", "category"])
+      .where(scopedWhere(scope, filter, options.shared ?? true))
+      .toArray();
+    return results.map(toSearchResult);
+  } catch (error) {
+    console.error("Erro ao varrer chunks:", error);
+    throw new Error(`Falha ao varrer chunks: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Remove chunks do usuário por id ou por filtro (a base compartilhada nunca é tocada)
+ * @param scope Usuário dono dos chunks
+ * @param target Lista de ids ou filtro tipado (mesmo formato de searchChunks)
+ * @returns Quantidade de chunks removidos
+ */
+export async function deleteChunks(scope: UserScope, target: string[] | ChunkFilter): Promise<number> {
+  validateUserScope(scope);
+
+  if (!db) {
+    await initLanceDB();
+  }
+
+  if (!db) {
+    throw new Error("Database não inicializado");
+  }
+
+  if (!table) {
+    return 0;
+  }
+
+  try {
+    const where = scopedWhere(scope, Array.isArray(target) ? inList("id", target) : target);
+    const count = await table.countRows(where);
+    if (count > 0) {
+      await table.delete(where);
+      invalidateKeywordIndexes(scope);
+    }
+    return count;
+  } catch (error) {
+    console.error("Erro ao remover chunks:", error);
+    throw new Error(`Falha ao remover chunks: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Conta os chunks do usuário e da base compartilhada (todos ou os que satisfazem o filtro)
+ */
+export async function countChunks(scope: UserScope, filter?: ChunkFilter): Promise<number> {
+  validateUserScope(scope);
+
+  if (!db) {
+    await initLanceDB();
+  }
+
+  if (!table) {
+    return 0;
+  }
+
+  try {
+    return await table.countRows(scopedWhere(scope, filter, true));
+  } catch (error) {
+    console.error("Erro ao contar chunks:", error);
+    throw new Error(`Falha ao contar chunks: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Lista chunks do usuário em ordem estável (data mais recente primeiro, depois id), com paginação
+ * @param scope Usuário dono dos chunks
+ * @param options.filter Filtro tipado (mesmo formato de searchChunks)
+ * @param options.shared Inclui a base compartilhada (padrão: true)
+ * @param options.limit Máximo de chunks (padrão: todos)
+ * @param options.offset Chunks a pular (padrão: 0)
+ */
+export async function listChunks(scope: UserScope, options: ListChunksOptions = {}): Promise<SearchResult[]> {
+  const { filter, limit, offset = 0, shared } = options;
+  const rows = (await scanChunks(scope, filter, { shared }))
+    .map(({ _distance, ...row }) => row)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+  return rows.slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+/**
+ * Mapeia uma linha do LanceDB para SearchResult
+ * Valores ausentes em "amount" voltam do LanceDB como NaN/null
+ */
+function toSearchResult(row: any): SearchResult {
+  return {
+    id: row.id,
+    userId: row[USER_COLUMN],
+    text: row.text,
+    type: row.type,
+    date: row.date,
+    source: row.source,
+    amount: Number.isFinite(row.amount) ? row.amount : undefined,
+    category: row.category ?? undefined,
+    _distance: row._distance,
+  };
+}
+
+/**
+ * Situação da tabela (health check): conexão, existência e total de linhas de todos os usuários
+ * Só lê: não conecta, não cria nem migra nada
+ * A tabela em si não é exportada, para nenhuma consulta escapar do escopo do usuário
+ */
+export async function getTableStats(): Promise<{ connected: boolean; exists: boolean; rows: number }> {
+  return { connected: db !== null, exists: table !== null, rows: table ? await table.countRows() : 0 };
+}
+
+/**
+ * Obtém os metadados da tabela (modelo e dimensão dos embeddings)
  */
-export function getTable(): lancedb.Table | null {
-  return table;
+export function getTableMetadata(): TableMetadata | null {
+  return tableMetadata;
 }
 
 /**
@@ -219,5 +821,7 @@ export function getTable(): lancedb.Table | null {
 export async function closeLanceDB(): Promise<void> {
   // LanceDB não requer fechamento explícito, mas podemos limpar referências
   table = null;
+  tableMetadata = null;
+  keywordIndexes.clear();
   db = null;
 }